@@ -0,0 +1,138 @@
+/** Linting for the Markdown body of SKILL.md. */
+
+import { type Diagnostic, type SourceRange } from "./diagnostics.js";
+import { estimateTokens, type Tokenizer } from "./tokens.js";
+
+/** Recommended maximum number of lines in the SKILL.md body. */
+export const DEFAULT_MAX_BODY_LINES = 500;
+/** Recommended maximum number of tokens in the SKILL.md body. */
+export const DEFAULT_MAX_BODY_TOKENS = 5000;
+
+/** Limits applied when linting the body. */
+export interface BodyLintOptions {
+  /** Maximum number of body lines (default: 500) */
+  maxLines?: number;
+  /** Maximum estimated body tokens (default: 5000) */
+  maxTokens?: number;
+  /** Token counter to use (default: estimateTokens heuristic) */
+  tokenizer?: Tokenizer;
+}
+
+// Opening or closing code fence: up to three spaces, then ``` or ~~~
+const CODE_FENCE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const TOP_LEVEL_HEADING = /^ {0,3}#(\s|$)/;
+
+/** Create a warning diagnostic. */
+function warning(
+  code: string,
+  message: string,
+  range: SourceRange,
+): Diagnostic {
+  return { code, severity: "warning", message, range };
+}
+
+/** Range covering a whole line. */
+function lineRange(line: number, text: string): SourceRange {
+  return {
+    start: { line, column: 1 },
+    end: { line, column: text.length + 1 },
+  };
+}
+
+/** Lint the Markdown body of a skill.
+ *
+ * The spec recommends keeping SKILL.md under 500 lines and the body under
+ * about 5000 tokens, moving detailed material to separate files. All
+ * findings are warnings.
+ *
+ * @param body - Trimmed Markdown body, as returned by parseSkillMd
+ * @param startLine - Line in SKILL.md on which the body starts
+ * @param options - Size limits
+ * @returns Warning diagnostics for the body
+ */
+export function lintBody(
+  body: string,
+  startLine: number,
+  options: BodyLintOptions = {},
+): Diagnostic[] {
+  const maxLines = options.maxLines ?? DEFAULT_MAX_BODY_LINES;
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_BODY_TOKENS;
+  const diagnostics: Diagnostic[] = [];
+
+  if (!body) {
+    diagnostics.push(
+      warning(
+        "body-empty",
+        "SKILL.md body is empty; add instructions after the frontmatter",
+        lineRange(startLine, ""),
+      ),
+    );
+    return diagnostics;
+  }
+
+  const lines = body.split(/\r?\n/);
+
+  if (lines.length > maxLines) {
+    diagnostics.push(
+      warning(
+        "body-too-many-lines",
+        `Body has ${lines.length} lines, more than the recommended ${maxLines}. Move detailed material to references/.`,
+        lineRange(startLine + maxLines, lines[maxLines]!),
+      ),
+    );
+  }
+
+  const tokens = (options.tokenizer ?? estimateTokens)(body);
+  if (tokens > maxTokens) {
+    diagnostics.push(
+      warning(
+        "body-too-many-tokens",
+        `Body is about ${tokens} tokens, more than the recommended ${maxTokens}`,
+        lineRange(startLine, lines[0]!),
+      ),
+    );
+  }
+
+  let openFence: { marker: string; index: number } | null = null;
+  let hasHeading = false;
+  lines.forEach((line, index) => {
+    const fence = CODE_FENCE.exec(line);
+    if (openFence) {
+      const closes =
+        fence &&
+        fence[1]![0] === openFence.marker[0] &&
+        fence[1]!.length >= openFence.marker.length &&
+        !fence[2]!.trim();
+      if (closes) {
+        openFence = null;
+      }
+    } else if (fence) {
+      openFence = { marker: fence[1]!, index };
+    } else if (TOP_LEVEL_HEADING.test(line)) {
+      hasHeading = true;
+    }
+  });
+
+  if (openFence) {
+    const { index } = openFence;
+    diagnostics.push(
+      warning(
+        "body-unclosed-code-fence",
+        "Code fence is never closed",
+        lineRange(startLine + index, lines[index]!),
+      ),
+    );
+  }
+
+  if (!hasHeading) {
+    diagnostics.push(
+      warning(
+        "body-missing-heading",
+        "Body has no top-level (#) heading",
+        lineRange(startLine, lines[0]!),
+      ),
+    );
+  }
+
+  return diagnostics;
+}
@@ -1,15 +1,51 @@
 #!/usr/bin/env node
 /** CLI for skills-ref library. */
 
-import { Command } from "commander";
-import { statSync } from "node:fs";
+import { Command, InvalidArgumentError, Option } from "commander";
+import { promises as fs, statSync } from "node:fs";
 import * as path from "node:path";
 
 import { version } from "./index.js";
+import { DEFAULT_MAX_BODY_LINES, DEFAULT_MAX_BODY_TOKENS } from "./body.js";
+import { DEFAULT_IGNORE, discoverSkills } from "./discovery.js";
 import { SkillError } from "./errors.js";
+import { type FixResult, fixSkill } from "./fixer.js";
+import { formatSkill } from "./format.js";
+import { initSkill } from "./init.js";
+import { matchSkills } from "./match.js";
+import { serveMcp } from "./mcp.js";
 import { readProperties } from "./parser.js";
-import { toPrompt } from "./prompt.js";
-import { validate } from "./validator.js";
+import { checkSkillPolicy, loadPolicy } from "./policy.js";
+import {
+  loadPromptSkills,
+  PROMPT_FIELDS,
+  PROMPT_FORMATS,
+  type PromptField,
+  type PromptFormat,
+  type PromptOptions,
+  type PromptSkill,
+  renderPrompt,
+} from "./prompt.js";
+import {
+  formatReport,
+  REPORT_FORMATS,
+  type ReportFormat,
+} from "./reporters.js";
+import { aggregateStats, formatStats, getSkillStats } from "./stats.js";
+import {
+  TOOL_MODES,
+  TOOL_PROVIDERS,
+  type ToolMode,
+  type ToolProvider,
+  toToolDefinitions,
+} from "./tools.js";
+import {
+  type SkillValidationResult,
+  type ValidateOptions,
+  validateSkill,
+  validateSkills,
+} from "./validator.js";
+import { type SkillChangeEvent, watchSkills } from "./watch.js";
 
 /** Check if path points directly to a SKILL.md or skill.md file. */
 function isSkillMdFile(filePath: string): boolean {
@@ -25,40 +61,398 @@ function isSkillMdFile(filePath: string): boolean {
   }
 }
 
+/** Print a validation report; text goes to stderr if any skill is invalid. */
+function printReport(results: SkillValidationResult[], format: ReportFormat) {
+  const report = formatReport(results, format);
+  if (format === "text" && !results.every((result) => result.valid)) {
+    console.error(report);
+  } else {
+    console.log(report);
+  }
+}
+
+/** Parse an option value that must be an integer of at least `min`. */
+function parseInteger(value: string, min: number): number {
+  const number = Number(value);
+  if (
+    !/^\d+$/.test(value.trim()) ||
+    !Number.isSafeInteger(number) ||
+    number < min
+  ) {
+    throw new InvalidArgumentError(
+      `Expected ${min === 0 ? "a non-negative" : "a positive"} integer, got '${value}'.`,
+    );
+  }
+  return number;
+}
+
+/** Parse an option value that must be a positive integer. */
+function parsePositiveInt(value: string): number {
+  return parseInteger(value, 1);
+}
+
+/** Parse an option value that must be zero or a positive integer. */
+function parseNonNegativeInt(value: string): number {
+  return parseInteger(value, 0);
+}
+
+/** Parse a comma-separated list of optional prompt fields. */
+function parsePromptFields(value: string): PromptField[] {
+  const fields = value.split(",").map((field) => field.trim());
+  for (const field of fields) {
+    if (!(PROMPT_FIELDS as readonly string[]).includes(field)) {
+      throw new InvalidArgumentError(
+        `Unknown field '${field}'. Allowed: ${PROMPT_FIELDS.join(", ")}.`,
+      );
+    }
+  }
+  return fields as PromptField[];
+}
+
+/** Print a rendered prompt, noting on stderr what the budget left out. */
+function printPrompt(skills: PromptSkill[], options: PromptOptions) {
+  const { prompt, omitted, truncated } = renderPrompt(skills, options);
+  console.log(prompt);
+  if (omitted.length > 0) {
+    console.error(
+      `Omitted ${omitted.length} skill(s) to fit the budget: ${omitted.join(", ")}`,
+    );
+  }
+  if (truncated.length > 0) {
+    console.error(
+      `Shortened descriptions to fit the budget: ${truncated.join(", ")}`,
+    );
+  }
+}
+
+/** Collect repeated key=value options into a record. */
+function collectKeyValue(
+  value: string,
+  previous: Record<string, string>,
+): Record<string, string> {
+  const separator = value.indexOf("=");
+  if (separator <= 0) {
+    throw new InvalidArgumentError(`Expected key=value, got '${value}'.`);
+  }
+  return {
+    ...previous,
+    [value.slice(0, separator)]: value.slice(separator + 1),
+  };
+}
+
+/** Diagnostic codes that mean a validate argument was not a usable path. */
+const PATH_ERROR_CODES = new Set(["path-not-found", "not-a-directory"]);
+
 const program = new Command();
 
 program.version(version).description("Reference library for Agent Skills");
 
+program
+  .command("init")
+  .argument("<name>", "Name of the new skill (also its directory name)")
+  .option("-d, --description <text>", "Skill description")
+  .option("--license <license>", "License name or bundled license file")
+  .option(
+    "--metadata <key=value>",
+    "Metadata entry (repeatable)",
+    collectKeyValue,
+    {},
+  )
+  .option("--dir <path>", "Directory to create the skill in", ".")
+  .option(
+    "--resources",
+    "Create scripts/, references/ and assets/ with starter files",
+    false,
+  )
+  .action(
+    async (
+      name: string,
+      options: {
+        description?: string;
+        license?: string;
+        metadata: Record<string, string>;
+        dir: string;
+        resources: boolean;
+      },
+    ) => {
+      /** Create a new skill directory with a SKILL.md skeleton.
+       *
+       * Refuses names that would fail validation, then validates the new
+       * skill and prints the result.
+       *
+       * Exit codes:
+       *   0: Skill created and valid
+       *   1: Invalid name or description, directory exists, or the new
+       *      skill failed validation
+       */
+      try {
+        const result = await initSkill(name, {
+          parentDir: options.dir,
+          description: options.description,
+          license: options.license,
+          metadata: options.metadata,
+          resources: options.resources,
+        });
+        console.log(`Created skill: ${result.skillDir}`);
+        printReport([result], "text");
+        process.exit(result.valid ? 0 : 1);
+      } catch (e) {
+        if (e instanceof SkillError) {
+          console.error(`Error: ${e.message}`);
+        } else {
+          console.error(`Error: ${String(e)}`);
+        }
+        process.exit(1);
+      }
+    },
+  );
+
 program
   .command("validate")
-  .argument("<skill_path>", "Path to skill directory or SKILL.md file")
-  .action(async (skillPath: string) => {
-    /** Validate a skill directory.
-     *
-     * Checks that the skill has a valid SKILL.md with proper frontmatter,
-     * correct naming conventions, and required fields.
-     *
-     * Exit codes:
-     *   0: Valid skill
-     *   1: Validation errors found
-     */
-    let skillDir = skillPath;
-    if (isSkillMdFile(skillPath)) {
-      skillDir = path.dirname(skillPath);
-    }
+  .argument("<skill_paths...>", "Paths to skill directories or SKILL.md files")
+  .addOption(
+    new Option("--format <format>", "Output format")
+      .choices(REPORT_FORMATS)
+      .default("text"),
+  )
+  .option(
+    "-r, --recursive",
+    "Validate every skill found under each path",
+    false,
+  )
+  .option(
+    "--concurrency <count>",
+    "Number of skills validated in parallel",
+    parsePositiveInt,
+    8,
+  )
+  .option(
+    "--max-body-lines <count>",
+    "Warn when the SKILL.md body exceeds this many lines",
+    parsePositiveInt,
+    DEFAULT_MAX_BODY_LINES,
+  )
+  .option(
+    "--max-body-tokens <count>",
+    "Warn when the SKILL.md body exceeds this many estimated tokens",
+    parsePositiveInt,
+    DEFAULT_MAX_BODY_TOKENS,
+  )
+  .option("--no-body-lint", "Skip SKILL.md body checks")
+  .option("--no-reference-check", "Skip checks of files referenced in the body")
+  .option("-w, --watch", "Revalidate skills when their files change", false)
+  .option("--fix", "Fix mechanical frontmatter problems before validating")
+  .addOption(
+    new Option(
+      "--dry-run",
+      "Print the changes --fix would make as a diff, without writing",
+    ).implies({ fix: true }),
+  )
+  .addOption(
+    new Option(
+      "--rename-dir",
+      "With --fix, also rename directories to match skill names",
+    ).implies({ fix: true }),
+  )
+  .action(
+    async (
+      skillPaths: string[],
+      options: {
+        format: ReportFormat;
+        recursive: boolean;
+        concurrency: number;
+        maxBodyLines: number;
+        maxBodyTokens: number;
+        bodyLint: boolean;
+        referenceCheck: boolean;
+        watch: boolean;
+        fix?: boolean;
+        dryRun?: boolean;
+        renameDir?: boolean;
+      },
+    ) => {
+      /** Validate one or more skill directories.
+       *
+       * Checks that each skill has a valid SKILL.md with proper
+       * frontmatter, correct naming conventions, and required fields.
+       * Also warns about bodies that are empty, too long or malformed
+       * (skip with --no-body-lint), and reports referenced files that are
+       * missing or outside the skill (skip with --no-reference-check).
+       * With --recursive, each path is scanned for skills first. Text
+       * output goes to stderr when validation fails; json, sarif and
+       * junit reports always go to stdout. With --watch, keeps running
+       * and revalidates each skill that changes. With --fix, first
+       * rewrites SKILL.md to fix mechanical problems (and with
+       * --rename-dir, renames directories to match skill names), listing
+       * each fix on stderr. With --dry-run, prints the fixes as a unified
+       * diff and exits without writing or validating.
+       *
+       * Exit codes:
+       *   0: All skills valid (--dry-run: nothing to fix)
+       *   1: Validation errors found, or a fix could not be applied
+       *      (--dry-run: fixes pending)
+       *   2: A path does not exist, is not a directory, or holds no skills
+       */
+      let skillDirs: string[];
+      if (options.recursive) {
+        try {
+          const skills = await discoverSkills(skillPaths);
+          if (skills.length === 0) {
+            console.error(`No skills found under ${skillPaths.join(", ")}`);
+            process.exit(2);
+          }
+          skillDirs = skills.map((skill) => skill.path);
+        } catch (e) {
+          console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
+          process.exit(2);
+        }
+      } else {
+        skillDirs = skillPaths.map((skillPath) =>
+          isSkillMdFile(skillPath) ? path.dirname(skillPath) : skillPath,
+        );
+      }
 
-    const errors = await validate(skillDir);
+      if (options.fix) {
+        let pending = false;
+        for (const [index, skillDir] of skillDirs.entries()) {
+          let fixed: FixResult;
+          try {
+            fixed = await fixSkill(skillDir, {
+              renameDir: options.renameDir,
+              dryRun: options.dryRun,
+            });
+          } catch (e) {
+            console.error(
+              `Error: Could not fix ${skillDir}: ${e instanceof Error ? e.message : String(e)}`,
+            );
+            process.exit(1);
+          }
+          for (const fix of fixed.fixes) {
+            console.error(
+              `${options.dryRun ? "Would fix" : "Fixed"} ${skillDir}: ${fix.message}`,
+            );
+          }
+          if (options.dryRun) {
+            process.stdout.write(fixed.diff);
+          }
+          pending ||= fixed.fixes.length > 0;
+          skillDirs[index] = fixed.skillDir;
+        }
+        if (options.dryRun) {
+          process.exit(pending ? 1 : 0);
+        }
+      }
+
+      const validateOptions: ValidateOptions = {
+        lintBody: options.bodyLint && {
+          maxLines: options.maxBodyLines,
+          maxTokens: options.maxBodyTokens,
+        },
+        checkReferences: options.referenceCheck,
+      };
+      const results = await validateSkills(skillDirs, {
+        ...validateOptions,
+        concurrency: options.concurrency,
+      });
+      printReport(results, options.format);
 
-    if (errors.length > 0) {
-      console.error(`Validation failed for ${skillDir}:`);
-      for (const error of errors) {
-        console.error(`  - ${error}`);
+      if (options.watch) {
+        const watcher = watchSkills(options.recursive ? skillPaths : skillDirs);
+        try {
+          await watcher.ready;
+        } catch (e) {
+          console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
+          process.exit(2);
+        }
+        const revalidate = async ({ skill }: SkillChangeEvent) => {
+          printReport(
+            [await validateSkill(skill.path, validateOptions)],
+            options.format,
+          );
+        };
+        watcher.on("add", revalidate);
+        watcher.on("change", revalidate);
+        watcher.on("remove", ({ skill }) =>
+          console.log(`Removed skill: ${skill.path}`),
+        );
+        watcher.on("error", (e) => console.error(`Error: ${e.message}`));
+        return;
       }
-      process.exit(1);
-    } else {
-      console.log(`Valid skill: ${skillDir}`);
-    }
-  });
+
+      const allValid = results.every((result) => result.valid);
+      const hasPathErrors = results.some((result) =>
+        result.diagnostics.some((d) => PATH_ERROR_CODES.has(d.code)),
+      );
+      if (hasPathErrors) {
+        process.exit(2);
+      }
+      if (!allValid) {
+        process.exit(1);
+      }
+    },
+  );
+
+program
+  .command("format")
+  .argument("<skill_paths...>", "Paths to skill directories or SKILL.md files")
+  .option("-r, --recursive", "Format every skill found under each path", false)
+  .option("--check", "Report unformatted files without writing them", false)
+  .action(
+    async (
+      skillPaths: string[],
+      options: { recursive: boolean; check: boolean },
+    ) => {
+      /** Rewrite SKILL.md files in canonical form.
+       *
+       * Orders frontmatter fields as in the spec, normalizes quoting and
+       * line endings, and puts one blank line before the body. With
+       * --check, prints a diff for each file that is not formatted and
+       * writes nothing.
+       *
+       * Exit codes:
+       *   0: All files formatted (--check: already formatted)
+       *   1: --check found unformatted files, or a SKILL.md is missing or
+       *      could not be parsed
+       *   2: With --recursive, a path does not exist or holds no skills
+       */
+      let skillDirs: string[];
+      try {
+        skillDirs = options.recursive
+          ? (await discoverSkills(skillPaths)).map((skill) => skill.path)
+          : skillPaths.map((skillPath) =>
+              isSkillMdFile(skillPath) ? path.dirname(skillPath) : skillPath,
+            );
+      } catch (e) {
+        console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
+        process.exit(2);
+      }
+      if (skillDirs.length === 0) {
+        console.error(`No skills found under ${skillPaths.join(", ")}`);
+        process.exit(2);
+      }
+
+      let failed = false;
+      for (const skillDir of skillDirs) {
+        try {
+          const result = await formatSkill(skillDir, { check: options.check });
+          if (!result.changed) {
+            continue;
+          }
+          if (options.check) {
+            console.error(`Not formatted: ${result.file}`);
+            process.stdout.write(result.diff);
+            failed = true;
+          } else {
+            console.log(`Formatted: ${result.file}`);
+          }
+        } catch (e) {
+          console.error(`Error: ${e instanceof Error ? e.message : String(e)}`);
+          failed = true;
+        }
+      }
+      process.exit(failed ? 1 : 0);
+    },
+  );
 
 program
   .command("read-properties")
@@ -94,35 +488,461 @@ program
 program
   .command("to-prompt")
   .argument("<skill_paths...>", "Paths to skill directories")
-  .action(async (skillPaths: string[]) => {
-    /** Generate <available_skills> XML for agent prompts.
-     *
-     * Accepts one or more skill directories.
-     *
-     * Exit codes:
-     *   0: Success
-     *   1: Error
-     */
-    try {
-      const resolvedPaths: string[] = [];
-      for (const skillPath of skillPaths) {
-        if (isSkillMdFile(skillPath)) {
-          resolvedPaths.push(path.dirname(skillPath));
+  .addOption(
+    new Option("--format <format>", "Output format")
+      .choices(PROMPT_FORMATS)
+      .default("xml"),
+  )
+  .option(
+    "--template <file>",
+    "Render with a Mustache-style template instead of --format",
+  )
+  .option("--no-location", "Omit each skill's SKILL.md location")
+  .option(
+    "--fields <fields>",
+    `Comma-separated optional fields to include (${PROMPT_FIELDS.join(", ")})`,
+    parsePromptFields,
+    [],
+  )
+  .option(
+    "--max-tokens <count>",
+    "Keep the prompt within this many estimated tokens",
+    parsePositiveInt,
+  )
+  .option(
+    "--max-chars <count>",
+    "Keep the prompt within this many characters",
+    parsePositiveInt,
+  )
+  .addOption(
+    new Option(
+      "--priority <names>",
+      "Comma-separated skill names to keep first when over budget",
+    )
+      .argParser((v) => v.split(",").map((name) => name.trim()))
+      .conflicts("priorityKey"),
+  )
+  .addOption(
+    new Option(
+      "--priority-key <key>",
+      "Metadata key holding a numeric priority (lowest kept first)",
+    ).conflicts("priority"),
+  )
+  .option("--no-truncate", "Drop skills rather than shorten descriptions")
+  .option("-w, --watch", "Regenerate the prompt when skills change", false)
+  .action(
+    async (
+      skillPaths: string[],
+      options: {
+        format: PromptFormat;
+        template?: string;
+        location: boolean;
+        fields: PromptField[];
+        maxTokens?: number;
+        maxChars?: number;
+        priority?: string[];
+        priorityKey?: string;
+        truncate: boolean;
+        watch: boolean;
+      },
+    ) => {
+      /** Generate <available_skills> XML for agent prompts.
+       *
+       * Accepts one or more skill directories. --format selects xml,
+       * json, markdown or text output, and --template renders a custom
+       * template file instead. With --max-tokens or --max-chars,
+       * descriptions are shortened and low-priority skills dropped to
+       * fit, and what was left out is reported on stderr. With --watch,
+       * keeps running and prints a fresh block whenever a skill is added,
+       * changed or removed.
+       *
+       * Exit codes:
+       *   0: Success
+       *   1: Error
+       */
+      try {
+        const resolvedPaths: string[] = [];
+        for (const skillPath of skillPaths) {
+          if (isSkillMdFile(skillPath)) {
+            resolvedPaths.push(path.dirname(skillPath));
+          } else {
+            resolvedPaths.push(skillPath);
+          }
+        }
+
+        const promptOptions: PromptOptions = {
+          format: options.format,
+          template:
+            options.template !== undefined
+              ? await fs.readFile(options.template, "utf-8")
+              : undefined,
+          includeLocation: options.location,
+          fields: options.fields,
+        };
+        if (options.maxTokens !== undefined || options.maxChars !== undefined) {
+          promptOptions.budget = {
+            maxTokens: options.maxTokens,
+            maxChars: options.maxChars,
+            priority: options.priority
+              ? { names: options.priority }
+              : options.priorityKey
+                ? { metadataKey: options.priorityKey }
+                : "alphabetical",
+            truncateDescriptions: options.truncate,
+          };
+        }
+        printPrompt(await loadPromptSkills(resolvedPaths), promptOptions);
+
+        if (options.watch) {
+          const watcher = watchSkills(resolvedPaths);
+          await watcher.ready;
+          const regenerate = ({ skill }: SkillChangeEvent) => {
+            if (skill.error) {
+              console.error(`Error: ${skill.error.message}`);
+            }
+            const loaded = watcher.skills.filter((s) => s.properties);
+            printPrompt(
+              loaded.map((s) => ({
+                properties: s.properties!,
+                location: s.location,
+              })),
+              promptOptions,
+            );
+          };
+          watcher.on("add", regenerate);
+          watcher.on("change", regenerate);
+          watcher.on("remove", regenerate);
+          watcher.on("error", (e) => console.error(`Error: ${e.message}`));
+        }
+      } catch (e) {
+        if (e instanceof SkillError) {
+          console.error(`Error: ${e.message}`);
         } else {
-          resolvedPaths.push(skillPath);
+          console.error(`Error: ${String(e)}`);
         }
+        process.exit(1);
       }
+    },
+  );
 
-      const output = await toPrompt(resolvedPaths);
-      console.log(output);
-    } catch (e) {
-      if (e instanceof SkillError) {
-        console.error(`Error: ${e.message}`);
-      } else {
-        console.error(`Error: ${String(e)}`);
+program
+  .command("to-tools")
+  .argument("<skill_paths...>", "Paths to skill directories")
+  .addOption(
+    new Option("--provider <provider>", "Tool definition shape")
+      .choices(TOOL_PROVIDERS)
+      .default("anthropic"),
+  )
+  .addOption(
+    new Option("--mode <mode>", "One activation tool, or one tool per skill")
+      .choices(TOOL_MODES)
+      .default("single"),
+  )
+  .option("--tool-name <name>", "Name of the activation tool in single mode")
+  .action(
+    async (
+      skillPaths: string[],
+      options: { provider: ToolProvider; mode: ToolMode; toolName?: string },
+    ) => {
+      /** Generate tool definitions for tool-based agents (outputs JSON).
+       *
+       * Emits an activate_skill tool whose parameter enumerates the skills,
+       * or with --mode per-skill one tool per skill, in the Anthropic,
+       * OpenAI or plain JSON Schema shape.
+       *
+       * Exit codes:
+       *   0: Success
+       *   1: Error
+       */
+      try {
+        const skillDirs = skillPaths.map((skillPath) =>
+          isSkillMdFile(skillPath) ? path.dirname(skillPath) : skillPath,
+        );
+        const tools = await toToolDefinitions(skillDirs, options);
+        console.log(JSON.stringify(tools, null, 2));
+      } catch (e) {
+        if (e instanceof SkillError) {
+          console.error(`Error: ${e.message}`);
+        } else {
+          console.error(`Error: ${String(e)}`);
+        }
+        process.exit(1);
       }
-      process.exit(1);
-    }
-  });
+    },
+  );
+
+program
+  .command("serve")
+  .argument(
+    "<dirs...>",
+    "Directories to load skills from, highest precedence first",
+  )
+  .option("--mcp", "Speak the Model Context Protocol over stdio", false)
+  .option(
+    "--max-file-bytes <count>",
+    "Largest skill file clients may read",
+    parsePositiveInt,
+  )
+  .action(
+    async (
+      dirs: string[],
+      options: { mcp: boolean; maxFileBytes?: number },
+    ) => {
+      /** Serve skills to agents.
+       *
+       * With --mcp, runs a Model Context Protocol server on stdin/stdout that
+       * lists each SKILL.md as a resource, serves bundled files and offers an
+       * activate_skill tool. Diagnostics go to stderr.
+       *
+       * Exit codes:
+       *   0: Input closed
+       *   1: Error
+       */
+      if (!options.mcp) {
+        console.error(
+          "Error: choose a protocol to serve (only --mcp is supported)",
+        );
+        process.exit(1);
+      }
+      try {
+        await serveMcp(dirs, { maxBytes: options.maxFileBytes });
+      } catch (e) {
+        if (e instanceof SkillError) {
+          console.error(`Error: ${e.message}`);
+        } else {
+          console.error(`Error: ${String(e)}`);
+        }
+        process.exit(1);
+      }
+    },
+  );
+
+program
+  .command("match")
+  .argument("<query>", "What the user wants to do")
+  .argument("<dirs...>", "Directories to search for skills")
+  .option("-k, --top <count>", "Number of skills to show", parsePositiveInt, 5)
+  .option("--json", "Output matches as JSON", false)
+  .action(
+    async (
+      query: string,
+      dirs: string[],
+      options: { top: number; json: boolean },
+    ) => {
+      /** Rank skills under the given directories by relevance to a query.
+       *
+       * Uses offline BM25 scoring over skill names and descriptions. Skills
+       * whose SKILL.md cannot be read are skipped.
+       *
+       * Exit codes:
+       *   0: Success (including no matches)
+       *   1: Error
+       */
+      try {
+        const skills = (await discoverSkills(dirs)).filter(
+          (skill) => skill.properties,
+        );
+        const matches = matchSkills(
+          query,
+          skills.map((skill) => ({
+            path: skill.path,
+            properties: skill.properties!,
+          })),
+          { topK: options.top },
+        );
+
+        if (options.json) {
+          console.log(
+            JSON.stringify(
+              matches.map((match) => ({
+                name: match.skill.properties.name,
+                path: match.skill.path,
+                score: match.score,
+                matchedTerms: match.matchedTerms,
+              })),
+              null,
+              2,
+            ),
+          );
+        } else if (matches.length === 0) {
+          console.log("No matching skills");
+        } else {
+          for (const match of matches) {
+            console.log(
+              `${match.score.toFixed(2).padStart(6)}  ${match.skill.properties.name}  (${match.matchedTerms.join(", ")})`,
+            );
+          }
+        }
+      } catch (e) {
+        if (e instanceof SkillError) {
+          console.error(`Error: ${e.message}`);
+        } else {
+          console.error(`Error: ${String(e)}`);
+        }
+        process.exit(1);
+      }
+    },
+  );
+
+const policyCommand = program
+  .command("policy")
+  .description("Check skills against an organization tool policy");
+
+policyCommand
+  .command("check")
+  .argument("<policy>", "Path to a YAML or JSON policy file")
+  .argument("<dirs...>", "Directories to search for skills")
+  .addOption(
+    new Option("--format <format>", "Output format")
+      .choices(REPORT_FORMATS)
+      .default("text"),
+  )
+  .action(
+    async (
+      policyFile: string,
+      dirs: string[],
+      options: { format: ReportFormat },
+    ) => {
+      /** Check every skill under the given directories against a policy.
+       *
+       * Reports pre-approved tools that the policy denies (errors) or flags
+       * for review (warnings), and missing compatibility disclosures.
+       *
+       * Exit codes:
+       *   0: No policy violations
+       *   1: At least one skill violates the policy
+       *   2: The policy file is invalid, a path does not exist, or no
+       *      skills were found
+       */
+      try {
+        const policy = await loadPolicy(policyFile);
+        const skills = await discoverSkills(dirs);
+        if (skills.length === 0) {
+          console.error(`Error: No skills found under ${dirs.join(", ")}`);
+          process.exit(2);
+        }
+
+        const results = [];
+        for (const skill of skills) {
+          results.push(await checkSkillPolicy(skill.path, policy));
+        }
+        printReport(results, options.format);
+        process.exit(results.every((result) => result.valid) ? 0 : 1);
+      } catch (e) {
+        if (e instanceof SkillError) {
+          console.error(`Error: ${e.message}`);
+        } else {
+          console.error(`Error: ${String(e)}`);
+        }
+        process.exit(2);
+      }
+    },
+  );
+
+program
+  .command("discover")
+  .argument("<roots...>", "Directories to scan for skills")
+  .option(
+    "--max-depth <depth>",
+    "Maximum directory depth to scan",
+    parseNonNegativeInt,
+  )
+  .option(
+    "--ignore <patterns...>",
+    "Glob patterns for directories to skip",
+    DEFAULT_IGNORE,
+  )
+  .option("--follow-symlinks", "Descend into symlinked directories", false)
+  .action(
+    async (
+      roots: string[],
+      options: { maxDepth?: number; ignore: string[]; followSymlinks: boolean },
+    ) => {
+      /** Discover skills under one or more directories and print them as JSON.
+       *
+       * Each entry has the skill path, its SKILL.md location, and either
+       * the parsed properties or the parse error.
+       *
+       * Exit codes:
+       *   0: All discovered skills parsed successfully
+       *   1: Error, or at least one skill failed to parse
+       */
+      try {
+        const skills = await discoverSkills(roots, options);
+        const output = skills.map((skill) => ({
+          path: skill.path,
+          location: skill.location,
+          ...(skill.properties
+            ? { properties: skill.properties.toDict() }
+            : { error: skill.error?.message }),
+        }));
+        console.log(JSON.stringify(output, null, 2));
+        if (skills.some((skill) => skill.error)) {
+          process.exit(1);
+        }
+      } catch (e) {
+        if (e instanceof SkillError) {
+          console.error(`Error: ${e.message}`);
+        } else {
+          console.error(`Error: ${String(e)}`);
+        }
+        process.exit(1);
+      }
+    },
+  );
+
+program
+  .command("stats")
+  .argument("<skill_paths...>", "Paths to skill directories or SKILL.md files")
+  .option("-r, --recursive", "Include every skill found under each path", false)
+  .option("--files", "List token counts for each resource file", false)
+  .option("--json", "Print statistics as JSON", false)
+  .action(
+    async (
+      skillPaths: string[],
+      options: { recursive: boolean; files: boolean; json: boolean },
+    ) => {
+      /** Report estimated token cost of skills at each disclosure level.
+       *
+       * Shows tokens for the metadata entry emitted by to-prompt, the
+       * SKILL.md body, and bundled resources, plus totals across skills.
+       *
+       * Exit codes:
+       *   0: Success
+       *   1: Error
+       */
+      try {
+        const skillDirs = options.recursive
+          ? (await discoverSkills(skillPaths)).map((skill) => skill.path)
+          : skillPaths.map((skillPath) =>
+              isSkillMdFile(skillPath) ? path.dirname(skillPath) : skillPath,
+            );
+
+        const stats = [];
+        for (const skillDir of skillDirs) {
+          stats.push(await getSkillStats(skillDir));
+        }
+
+        if (options.json) {
+          console.log(
+            JSON.stringify(
+              { skills: stats, total: aggregateStats(stats) },
+              null,
+              2,
+            ),
+          );
+        } else {
+          console.log(formatStats(stats, options.files));
+        }
+      } catch (e) {
+        if (e instanceof SkillError) {
+          console.error(`Error: ${e.message}`);
+        } else {
+          console.error(`Error: ${String(e)}`);
+        }
+        process.exit(1);
+      }
+    },
+  );
 
 program.parse();
@@ -0,0 +1,68 @@
+/** Structured diagnostics reported by the validator. */
+
+/** How serious a diagnostic is. Only errors make a skill invalid. */
+export type Severity = "error" | "warning" | "info";
+
+/** A 1-based line and column within SKILL.md. */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/** A span within SKILL.md. `end` points just past the last character. */
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/** A single finding about a skill. */
+export interface Diagnostic {
+  /** Stable rule code, e.g. `name-uppercase` or `description-too-long` */
+  code: string;
+  /** Severity of the finding */
+  severity: Severity;
+  /** Frontmatter field the finding refers to, if any */
+  field?: string;
+  /** Human-readable description of the problem */
+  message: string;
+  /** Path to the SKILL.md file the finding refers to, if any */
+  file?: string;
+  /** Location of the finding within `file` */
+  range?: SourceRange;
+}
+
+/** Convert diagnostics to plain message strings.
+ *
+ * Compatibility helper for callers that used the string lists returned
+ * by earlier versions of `validate` and `validateMetadata`.
+ *
+ * @param diagnostics - Diagnostics to convert
+ * @returns The message of each diagnostic, in order
+ */
+export function toMessages(diagnostics: Diagnostic[]): string[] {
+  return diagnostics.map((d) => d.message);
+}
+
+/** Check whether any diagnostic has error severity.
+ *
+ * @param diagnostics - Diagnostics to check
+ * @returns True if at least one diagnostic is an error
+ */
+export function hasErrors(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some((d) => d.severity === "error");
+}
+
+/** Format a diagnostic as a compiler-style line.
+ *
+ * @param diagnostic - Diagnostic to format
+ * @returns Line like `path/SKILL.md:2:1: error: message [code]`
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  let location = diagnostic.file ?? "";
+  if (diagnostic.file && diagnostic.range) {
+    const { line, column } = diagnostic.range.start;
+    location += `:${line}:${column}`;
+  }
+  const prefix = location ? `${location}: ` : "";
+  return `${prefix}${diagnostic.severity}: ${diagnostic.message} [${diagnostic.code}]`;
+}
@@ -0,0 +1,178 @@
+/** Line-based unified diffs for previewing file rewrites. */
+
+/** Options for formatting a unified diff. */
+export interface DiffOptions {
+  /** Name of the original file in the `---` header (default: "a") */
+  fromFile?: string;
+  /** Name of the new file in the `+++` header (default: fromFile) */
+  toFile?: string;
+  /** Unchanged lines shown around each change (default: 3) */
+  context?: number;
+}
+
+interface DiffLine {
+  op: " " | "-" | "+";
+  line: string;
+}
+
+// Above this many line pairs, the changed region is shown as a single
+// replacement rather than computing a minimal diff
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Compute a unified diff between two versions of a text file.
+ *
+ * Output follows `diff -u`: a `---`/`+++` header followed by `@@` hunks,
+ * with a `\ No newline at end of file` marker where needed.
+ *
+ * @param before - Original content
+ * @param after - New content
+ * @param options - File names for the header and context size
+ * @returns The diff, or an empty string if the contents are identical
+ *
+ * @example
+ * ```ts
+ * const diff = unifiedDiff(original, fixed, { fromFile: "SKILL.md" });
+ * process.stdout.write(diff);
+ * ```
+ */
+export function unifiedDiff(
+  before: string,
+  after: string,
+  options: DiffOptions = {},
+): string {
+  if (before === after) {
+    return "";
+  }
+  const context = options.context ?? 3;
+  const fromFile = options.fromFile ?? "a";
+  const toFile = options.toFile ?? fromFile;
+  const lines = diffLines(splitLines(before), splitLines(after));
+
+  const output = [`--- ${fromFile}`, `+++ ${toFile}`];
+  let index = 0;
+  let oldLine = 0;
+  let newLine = 0;
+  while (index < lines.length) {
+    const firstChange = lines.findIndex((l, i) => i >= index && l.op !== " ");
+    if (firstChange === -1) {
+      break;
+    }
+
+    // Extend the hunk while the next change is within two contexts
+    let lastChange = firstChange;
+    for (let i = firstChange + 1; i < lines.length; i++) {
+      if (lines[i]!.op !== " ") {
+        if (i - lastChange > 2 * context) {
+          break;
+        }
+        lastChange = i;
+      }
+    }
+    const start = Math.max(index, firstChange - context);
+    const end = Math.min(lines.length, lastChange + context + 1);
+
+    // Advance line counters to the start of the hunk
+    for (let i = index; i < start; i++) {
+      oldLine += 1;
+      newLine += 1;
+    }
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((l) => l.op !== "+").length;
+    const newCount = hunk.filter((l) => l.op !== "-").length;
+    output.push(
+      `@@ -${hunkRange(oldLine, oldCount)} +${hunkRange(newLine, newCount)} @@`,
+      ...hunk.map((l) => l.op + l.line),
+    );
+    oldLine += oldCount;
+    newLine += newCount;
+    index = end;
+  }
+  return output.join("\n") + "\n";
+}
+
+/** Format the line range of one side of a hunk header. */
+function hunkRange(linesBefore: number, count: number): string {
+  if (count === 1) {
+    return String(linesBefore + 1);
+  }
+  // An empty range names the line it follows
+  return `${count === 0 ? linesBefore : linesBefore + 1},${count}`;
+}
+
+/** Split text into lines, marking a last line without a newline. */
+function splitLines(text: string): string[] {
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += "\n\\ No newline at end of file";
+  }
+  return lines;
+}
+
+/** Align two line lists by their longest common subsequence. */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const same = (line: string): DiffLine => ({ op: " ", line });
+  return [
+    ...a.slice(0, prefix).map(same),
+    ...diffMiddle(oldMiddle, newMiddle),
+    ...a.slice(a.length - suffix).map(same),
+  ];
+}
+
+/** Diff two line lists that differ at both ends. */
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const removed = a.map((line): DiffLine => ({ op: "-", line }));
+  const added = b.map((line): DiffLine => ({ op: "+", line }));
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+    return [...removed, ...added];
+  }
+
+  // lengths[i * width + j]: LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1]! + 1
+          : Math.max(
+              lengths[(i + 1) * width + j]!,
+              lengths[i * width + j + 1]!,
+            );
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ op: " ", line: a[i]! });
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!) {
+      result.push(removed[i]!);
+      i += 1;
+    } else {
+      result.push(added[j]!);
+      j += 1;
+    }
+  }
+  return [...result, ...removed.slice(i), ...added.slice(j)];
+}
@@ -0,0 +1,133 @@
+/** Recursive skill discovery in configured directories. */
+
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+
+import { ParseError, SkillError } from "./errors.js";
+import { matchesAnyGlob } from "./glob.js";
+import { SkillProperties } from "./models.js";
+import { findSkillMd, readProperties } from "./parser.js";
+
+/** Directories skipped during discovery unless `ignore` is overridden. */
+export const DEFAULT_IGNORE = ["node_modules", ".git"];
+
+/** Options controlling how skill directories are scanned. */
+export interface DiscoverOptions {
+  /** Maximum directory depth below each root (0 = only the root itself) */
+  maxDepth?: number;
+  /** Glob patterns (relative to the root) for directories to skip */
+  ignore?: string[];
+  /** Whether to descend into symlinked directories (default: false) */
+  followSymlinks?: boolean;
+}
+
+/** A skill directory found during discovery. */
+export interface DiscoveredSkill {
+  /** Absolute path to the skill directory */
+  path: string;
+  /** Absolute path to the skill's SKILL.md file */
+  location: string;
+  /** Parsed properties, if SKILL.md could be read */
+  properties?: SkillProperties;
+  /** The error raised while reading properties, if any */
+  error?: SkillError;
+}
+
+/** Discover skills under one or more root directories.
+ *
+ * A directory is treated as a skill if it contains SKILL.md (or skill.md).
+ * Skill directories are not searched further, since their subdirectories
+ * hold scripts, references and assets rather than nested skills.
+ * Directories below a root that cannot be read are skipped.
+ *
+ * @param roots - Directories to scan
+ * @param options - Depth, ignore and symlink settings
+ * @returns Discovered skills sorted by path. Skills whose SKILL.md fails to
+ *          parse are included with `error` set instead of `properties`.
+ * @throws SkillError If a root does not exist, is not a directory or
+ *         cannot be read
+ */
+export async function discoverSkills(
+  roots: string[],
+  options: DiscoverOptions = {},
+): Promise<DiscoveredSkill[]> {
+  const maxDepth = options.maxDepth ?? Infinity;
+  const ignore = options.ignore ?? DEFAULT_IGNORE;
+  const followSymlinks = options.followSymlinks ?? false;
+
+  const found = new Map<string, DiscoveredSkill>();
+  const visited = new Set<string>();
+
+  async function visit(dir: string, root: string, depth: number) {
+    const realDir = await fs.realpath(dir);
+    if (visited.has(realDir)) {
+      return;
+    }
+    visited.add(realDir);
+
+    const skillMd = await findSkillMd(dir);
+    if (skillMd !== null) {
+      found.set(dir, await loadDiscovered(dir, skillMd));
+      return;
+    }
+
+    if (depth >= maxDepth) {
+      return;
+    }
+
+    // An unreadable directory cannot hold skills we could load anyway,
+    // but an unreadable root is an error
+    const entries = await fs
+      .readdir(dir, { withFileTypes: true })
+      .catch((e: unknown) => {
+        if (dir === root) {
+          throw new SkillError(`Cannot read directory: ${dir} (${e})`);
+        }
+        return [];
+      });
+    for (const entry of entries) {
+      const child = path.join(dir, entry.name);
+      const relPath = path.relative(root, child).split(path.sep).join("/");
+      if (matchesAnyGlob(relPath, ignore)) {
+        continue;
+      }
+
+      if (entry.isDirectory()) {
+        await visit(child, root, depth + 1);
+      } else if (entry.isSymbolicLink() && followSymlinks) {
+        const stat = await fs.stat(child).catch(() => null);
+        if (stat?.isDirectory()) {
+          await visit(child, root, depth + 1);
+        }
+      }
+    }
+  }
+
+  for (const root of roots) {
+    const resolvedRoot = path.resolve(root);
+    const stat = await fs.stat(resolvedRoot).catch(() => null);
+    if (stat === null) {
+      throw new SkillError(`Path does not exist: ${resolvedRoot}`);
+    }
+    if (!stat.isDirectory()) {
+      throw new SkillError(`Not a directory: ${resolvedRoot}`);
+    }
+    await visit(resolvedRoot, resolvedRoot, 0);
+  }
+
+  return [...found.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Read properties for a discovered skill, capturing any parse error. */
+async function loadDiscovered(
+  skillDir: string,
+  skillMd: string,
+): Promise<DiscoveredSkill> {
+  try {
+    const properties = await readProperties(skillDir);
+    return { path: skillDir, location: skillMd, properties };
+  } catch (e) {
+    const error = e instanceof SkillError ? e : new ParseError(String(e));
+    return { path: skillDir, location: skillMd, error };
+  }
+}
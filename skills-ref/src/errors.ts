@@ -1,5 +1,11 @@
 /** Skill-related exceptions. */
 
+import {
+  type Diagnostic,
+  type SourceRange,
+  toMessages,
+} from "./diagnostics.js";
+
 /** Base exception for all skill-related errors. */
 export class SkillError extends Error {
   constructor(message: string) {
@@ -10,20 +16,50 @@ export class SkillError extends Error {
 
 /** Raised when SKILL.md parsing fails. */
 export class ParseError extends SkillError {
-  constructor(message: string) {
+  /** Location of the problem within SKILL.md, if known */
+  readonly range?: SourceRange;
+  /** Diagnostic code, e.g. `parse-error` or `frontmatter-duplicate-key` */
+  readonly code: string;
+
+  constructor(message: string, range?: SourceRange, code = "parse-error") {
     super(message);
     this.name = "ParseError";
+    this.range = range;
+    this.code = code;
   }
 }
 
 /** Raised when skill properties are invalid. */
 export class ValidationError extends SkillError {
-  /** List of validation error messages (may contain just one) */
-  readonly errors: string[];
+  /** List of validation diagnostics (may contain just one) */
+  readonly errors: Diagnostic[];
 
-  constructor(message: string, errors?: string[]) {
+  constructor(message: string, errors?: Diagnostic[]) {
     super(message);
     this.name = "ValidationError";
-    this.errors = errors ?? [message];
+    this.errors = errors ?? [
+      { code: "validation-error", severity: "error", message },
+    ];
+  }
+
+  /** Plain message strings for each diagnostic in `errors`. */
+  get messages(): string[] {
+    return toMessages(this.errors);
+  }
+}
+
+/** Raised when a bundled skill resource cannot be read. */
+export class ResourceError extends SkillError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ResourceError";
+  }
+}
+
+/** Raised when a policy file cannot be read or is malformed. */
+export class PolicyError extends SkillError {
+  constructor(message: string) {
+    super(message);
+    this.name = "PolicyError";
   }
 }
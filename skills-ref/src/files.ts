@@ -0,0 +1,220 @@
+/** Sandboxed access to skill files for agents without shell access. */
+
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+
+import { ResourceError } from "./errors.js";
+import { findSkillMd, readProperties } from "./parser.js";
+import { isWithin } from "./paths.js";
+import { SkillRegistry } from "./registry.js";
+import { isBinary, listResourceFiles } from "./resources.js";
+
+/** Default size limit for files served from a skill (256 KiB). */
+export const DEFAULT_MAX_FILE_BYTES = 256 * 1024;
+
+/** Options for serving skill files. */
+export interface SkillFileServerOptions {
+  /** Largest file that will be served, in bytes (default: 256 KiB) */
+  maxBytes?: number;
+}
+
+/** A file read from a skill. */
+export interface SkillFile {
+  /** Name of the skill the file belongs to */
+  skill: string;
+  /** Path relative to the skill root, using `/` separators */
+  path: string;
+  /** MIME type guessed from the file extension */
+  mimeType: string;
+  /** File size in bytes */
+  size: number;
+  /** Whether the file is binary */
+  binary: boolean;
+  /** File content: text for text files, base64 for binary files */
+  content: string;
+  /** How `content` is encoded */
+  encoding: "utf-8" | "base64";
+}
+
+/** Serves files from a set of skills by name. */
+export interface SkillFileServer {
+  /** Names of the skills that can be read from, sorted. */
+  skills(): string[];
+  /** List the files of a skill: SKILL.md plus its bundled resources.
+   *
+   * @throws ResourceError If the skill is unknown
+   */
+  listFiles(skill: string): Promise<string[]>;
+  /** Read a file from a skill.
+   *
+   * @throws ResourceError If the skill is unknown, or the path is unsafe,
+   *         missing, not a regular file or over the size limit
+   */
+  readFile(skill: string, relPath: string): Promise<SkillFile>;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  ".md": "text/markdown",
+  ".markdown": "text/markdown",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".html": "text/html",
+  ".css": "text/css",
+  ".js": "text/javascript",
+  ".mjs": "text/javascript",
+  ".ts": "text/x-typescript",
+  ".py": "text/x-python",
+  ".sh": "application/x-sh",
+  ".json": "application/json",
+  ".yaml": "application/yaml",
+  ".yml": "application/yaml",
+  ".xml": "application/xml",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+};
+
+/** Create a file server for the skills of a registry or a list of directories.
+ *
+ * Files are addressed by skill name and a path relative to the skill root.
+ * Paths containing `..` segments, absolute paths and symlinks resolving
+ * outside the skill directory are rejected. Text files are returned as
+ * UTF-8 and binary files as base64.
+ *
+ * With a registry, lookups use its current contents, so reloading the
+ * registry updates what is served.
+ *
+ * @param source - A loaded SkillRegistry, or paths to skill directories
+ * @param options - Size limit
+ * @returns A server reading files from those skills
+ * @throws ParseError If a skill directory has no valid SKILL.md
+ * @throws ValidationError If required fields (name, description) are missing
+ *
+ * @example
+ * ```ts
+ * const server = await createSkillFileServer(registry);
+ * const file = await server.readFile("pdf-reader", "references/FORMS.md");
+ * console.log(file.mimeType, file.content);
+ * ```
+ */
+export async function createSkillFileServer(
+  source: SkillRegistry | string[],
+  options: SkillFileServerOptions = {},
+): Promise<SkillFileServer> {
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_FILE_BYTES;
+
+  let lookup: (name: string) => string | undefined;
+  let names: () => string[];
+  if (source instanceof SkillRegistry) {
+    lookup = (name) => source.get(name)?.path;
+    names = () => source.list().map((entry) => entry.name);
+  } else {
+    const dirs = new Map<string, string>();
+    for (const skillDir of source) {
+      const resolvedDir = path.resolve(skillDir);
+      const properties = await readProperties(resolvedDir);
+      dirs.set(properties.name, resolvedDir);
+    }
+    lookup = (name) => dirs.get(name);
+    names = () => [...dirs.keys()].sort();
+  }
+
+  const skillDir = (name: string): string => {
+    const dir = lookup(name);
+    if (dir === undefined) {
+      throw new ResourceError(`Unknown skill '${name}'`);
+    }
+    return dir;
+  };
+
+  return {
+    skills: names,
+
+    async listFiles(skill) {
+      const dir = skillDir(skill);
+      const skillMd = await findSkillMd(dir);
+      const resources = await listResourceFiles(dir);
+      return skillMd ? [path.basename(skillMd), ...resources] : resources;
+    },
+
+    async readFile(skill, relPath) {
+      const dir = skillDir(skill);
+      const normalized = safeRelativePath(relPath);
+      const target = path.join(dir, normalized);
+
+      const [realRoot, realTarget] = await Promise.all([
+        fs.realpath(dir),
+        fs.realpath(target).catch(() => null),
+      ]);
+      if (realTarget === null) {
+        throw new ResourceError(
+          `File '${relPath}' not found in skill '${skill}'`,
+        );
+      }
+      if (!isWithin(realRoot, realTarget)) {
+        throw new ResourceError(
+          `File '${relPath}' resolves outside skill '${skill}'`,
+        );
+      }
+
+      const stat = await fs.stat(realTarget);
+      if (!stat.isFile()) {
+        throw new ResourceError(
+          `'${relPath}' in skill '${skill}' is not a file`,
+        );
+      }
+      if (stat.size > maxBytes) {
+        throw new ResourceError(
+          `File '${relPath}' is ${stat.size} bytes, over the ${maxBytes} byte limit`,
+        );
+      }
+
+      const content = await fs.readFile(realTarget);
+      const binary = isBinary(content);
+      return {
+        skill,
+        path: normalized,
+        mimeType: mimeType(normalized, binary),
+        size: content.length,
+        binary,
+        content: content.toString(binary ? "base64" : "utf-8"),
+        encoding: binary ? "base64" : "utf-8",
+      };
+    },
+  };
+}
+
+/** Normalize a requested path, rejecting anything that could escape the skill.
+ *
+ * @throws ResourceError If the path is empty, absolute, contains `..` or NUL
+ */
+function safeRelativePath(relPath: string): string {
+  const slashed = relPath.replace(/\\/g, "/");
+  if (slashed.includes("\0")) {
+    throw new ResourceError(`Invalid path: '${relPath}'`);
+  }
+  if (slashed.startsWith("/") || path.win32.isAbsolute(relPath)) {
+    throw new ResourceError(`Absolute paths are not allowed: '${relPath}'`);
+  }
+  if (slashed.split("/").includes("..")) {
+    throw new ResourceError(`Path traversal is not allowed: '${relPath}'`);
+  }
+  const normalized = path.posix.normalize(slashed);
+  if (normalized === "." || normalized === "") {
+    throw new ResourceError("A file path is required");
+  }
+  return normalized.replace(/\/$/, "");
+}
+
+/** Guess a MIME type from the file extension. */
+function mimeType(relPath: string, binary: boolean): string {
+  return (
+    MIME_TYPES[path.posix.extname(relPath).toLowerCase()] ??
+    (binary ? "application/octet-stream" : "text/plain")
+  );
+}
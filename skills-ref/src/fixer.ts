@@ -0,0 +1,275 @@
+/** Automatic fixes for mechanical frontmatter problems. */
+
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+
+import { unifiedDiff } from "./diff.js";
+import { findSkillMd, type ParsedSkillMd, parseSkillMd } from "./parser.js";
+import { ALLOWED_FIELDS, validateMetadata } from "./validator.js";
+import {
+  type FrontmatterPatch,
+  patchFrontmatter,
+  valueSource,
+} from "./writer.js";
+
+/** A fix applied to a skill, and the diagnostics it resolves. */
+export interface SkillFix {
+  /** Codes of the diagnostics the fix addresses */
+  codes: string[];
+  /** What was changed */
+  message: string;
+}
+
+/** SKILL.md content after fixes. */
+export interface FixedSkillMd {
+  /** The rewritten content (unchanged if there was nothing to fix) */
+  content: string;
+  /** Fixes applied, in the order they were made */
+  fixes: SkillFix[];
+}
+
+/** Options for fixing a skill directory. */
+export interface FixOptions {
+  /** Rename the directory to match the skill name (default: false) */
+  renameDir?: boolean;
+  /** Compute fixes without writing anything (default: false) */
+  dryRun?: boolean;
+}
+
+/** Outcome of fixing a skill directory. */
+export interface FixResult {
+  /** Path to the skill directory, after any rename */
+  skillDir: string;
+  /** Fixes applied, or that would be applied in a dry run */
+  fixes: SkillFix[];
+  /** Unified diff of the SKILL.md rewrite; empty if unchanged */
+  diff: string;
+}
+
+// Name diagnostics fixed by normalizing the name
+const NAME_CODES = [
+  "name-uppercase",
+  "name-hyphen-boundary",
+  "name-consecutive-hyphens",
+  "name-invalid-characters",
+];
+
+/** Normalize a name into the allowed form.
+ *
+ * Lowercases, turns runs of characters other than letters, digits and
+ * hyphens into a single hyphen, and strips leading and trailing hyphens.
+ */
+function normalizeName(name: string): string {
+  return name
+    .normalize("NFKC")
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}-]+/gu, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/** Check whether a name passes every name rule. */
+function isValidName(name: string): boolean {
+  return !validateMetadata({ name, description: "-" }).some(
+    (d) => d.field === "name",
+  );
+}
+
+/** Apply safe rewrites to SKILL.md content.
+ *
+ * Fixes are made line by line in the frontmatter, so comments, key order
+ * and the body are left as they were. Fixed problems:
+ *
+ * - Names that are not lowercase, contain characters other than letters,
+ *   digits and hyphens, or have leading, trailing or repeated hyphens are
+ *   normalized (`My_Skill-` becomes `my-skill`).
+ * - A missing name is taken from the directory name, if that is valid.
+ * - Unknown top-level keys with scalar values are moved under `metadata`,
+ *   unless `metadata` already has that key.
+ *
+ * Other problems, such as a missing description, are left for the author.
+ *
+ * @param content - Raw SKILL.md content
+ * @param dirName - Name of the skill directory, used for a missing name
+ * @returns The fixed content and the fixes made
+ * @throws ParseError If the frontmatter cannot be parsed
+ *
+ * @example
+ * ```ts
+ * const { content, fixes } = fixSkillMd(original, "pdf-reader");
+ * ```
+ */
+export function fixSkillMd(content: string, dirName?: string): FixedSkillMd {
+  const parsed = parseSkillMd(content);
+  const { metadata } = parsed;
+  const codes = new Set(validateMetadata(metadata).map((d) => d.code));
+  const patch: FrontmatterPatch = {};
+  const fixes: SkillFix[] = [];
+
+  const fixedCodes = NAME_CODES.filter((code) => codes.has(code));
+  if (fixedCodes.length > 0 && typeof metadata.name === "string") {
+    const name = normalizeName(metadata.name);
+    if (name && name !== metadata.name) {
+      patch.name = name;
+      fixes.push({
+        codes: fixedCodes,
+        message: `Renamed skill '${metadata.name}' to '${name}'`,
+      });
+    }
+  } else if (
+    codes.has("name-missing") &&
+    dirName !== undefined &&
+    isValidName(dirName)
+  ) {
+    patch.name = dirName;
+    fixes.push({
+      codes: ["name-missing"],
+      message: `Added name '${dirName}' from the directory name`,
+    });
+  }
+
+  if (codes.has("unexpected-fields")) {
+    const moved = movableFields(content, parsed);
+    const keys = Object.keys(moved);
+    if (keys.length > 0) {
+      for (const key of keys) {
+        patch[key] = undefined;
+      }
+      patch.metadata = { ...(metadata.metadata as object), ...moved };
+      fixes.push({
+        codes: ["unexpected-fields"],
+        message: `Moved ${keys.map((k) => `'${k}'`).join(", ")} under metadata`,
+      });
+    }
+  }
+
+  return {
+    content: fixes.length > 0 ? patchFrontmatter(content, patch) : content,
+    fixes,
+  };
+}
+
+/** Find unknown scalar keys that can move under `metadata`.
+ *
+ * @returns The keys with their values as metadata strings; numbers and
+ *          booleans keep their spelling (`1.10` stays `1.10`)
+ */
+function movableFields(
+  content: string,
+  parsed: ParsedSkillMd,
+): Record<string, string> {
+  const { metadata } = parsed;
+  const existing = metadata.metadata;
+  if (
+    existing !== undefined &&
+    (typeof existing !== "object" ||
+      existing === null ||
+      Array.isArray(existing))
+  ) {
+    return {};
+  }
+  const current = existing ?? {};
+  const lines = content.split("\n");
+
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    const range = parsed.fieldRanges[key];
+    if (ALLOWED_FIELDS.has(key) || key in current || range === undefined) {
+      continue;
+    }
+    if (typeof value === "string") {
+      values[key] = value;
+    } else if (
+      (typeof value === "number" || typeof value === "boolean") &&
+      range.start.line === range.end.line
+    ) {
+      const source = valueSource(lines[range.start.line - 1]!);
+      if (source !== null) {
+        values[key] = source;
+      }
+    }
+  }
+  return values;
+}
+
+/** Fix a skill directory in place.
+ *
+ * Applies fixSkillMd() to the skill's SKILL.md and, with `renameDir`,
+ * renames the directory to match the (fixed) skill name if that name is
+ * valid and no file of that name exists yet. Skills whose SKILL.md is
+ * missing or unparseable are left alone; validation reports them.
+ *
+ * @param skillDir - Path to the skill directory
+ * @param options - Directory renaming and dry-run mode
+ * @returns The fixes made and a diff of the SKILL.md rewrite
+ * @throws Error If the directory cannot be renamed or SKILL.md cannot be
+ *         written. The rename happens first, so if it fails nothing has
+ *         changed.
+ */
+export async function fixSkill(
+  skillDir: string,
+  options: FixOptions = {},
+): Promise<FixResult> {
+  const unchanged: FixResult = { skillDir, fixes: [], diff: "" };
+  const skillMd = await findSkillMd(skillDir);
+  if (skillMd === null) {
+    return unchanged;
+  }
+
+  const content = await fs.readFile(skillMd, "utf-8");
+  const resolvedDir = path.resolve(skillDir);
+  const dirName = path.basename(resolvedDir);
+  let fixed: FixedSkillMd;
+  let name: unknown;
+  try {
+    fixed = fixSkillMd(content, dirName);
+    name = parseSkillMd(fixed.content).metadata.name;
+  } catch {
+    return unchanged;
+  }
+
+  let targetDir = skillDir;
+  const fixes = [...fixed.fixes];
+  if (
+    options.renameDir &&
+    typeof name === "string" &&
+    name !== dirName &&
+    isValidName(name)
+  ) {
+    const candidate = path.join(path.dirname(resolvedDir), name);
+    if (!(await exists(candidate))) {
+      targetDir = candidate;
+      fixes.push({
+        codes: ["name-directory-mismatch"],
+        message: `Renamed directory '${dirName}' to '${name}'`,
+      });
+    }
+  }
+
+  const targetMd = path.join(targetDir, path.basename(skillMd));
+  const diff = unifiedDiff(content, fixed.content, {
+    fromFile: skillMd,
+    toFile: targetMd,
+  });
+  if (!options.dryRun) {
+    // Rename first, so a failed rename leaves SKILL.md untouched
+    if (targetDir !== skillDir) {
+      await fs.rename(resolvedDir, targetDir);
+    }
+    if (fixed.content !== content) {
+      await fs.writeFile(targetMd, fixed.content);
+    }
+  }
+  return { skillDir: targetDir, fixes, diff };
+}
+
+/** Check whether a path exists. */
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,195 @@
+/** Canonical formatting of SKILL.md files. */
+
+import * as yaml from "js-yaml";
+import { promises as fs } from "node:fs";
+import { isDeepStrictEqual } from "node:util";
+
+import { unifiedDiff } from "./diff.js";
+import { ParseError } from "./errors.js";
+import { findSkillMd, parseSkillMd } from "./parser.js";
+import { FIELD_ORDER } from "./writer.js";
+
+/** Options for formatting a skill directory. */
+export interface FormatOptions {
+  /** Only check whether SKILL.md is formatted; never write (default: false) */
+  check?: boolean;
+}
+
+/** Outcome of formatting a skill directory. */
+export interface FormatResult {
+  /** Path to the SKILL.md file */
+  file: string;
+  /** True if the file was not in canonical form */
+  changed: boolean;
+  /** Unified diff from the original to the canonical form */
+  diff: string;
+}
+
+/** Rewrite SKILL.md content in canonical form.
+ *
+ * - Line endings become `\n`, and a byte order mark or blank lines before
+ *   the frontmatter are dropped.
+ * - Frontmatter fields follow spec order (name, description, license,
+ *   compatibility, allowed-tools, metadata), then any other keys in their
+ *   original order.
+ * - Values are re-serialized with consistent quoting: plain where YAML
+ *   allows it, single quotes otherwise, and no line folding. `name` and
+ *   `description` are trimmed, so a folded description becomes one line.
+ *   An entry is kept as written if re-serializing would change how a
+ *   value reads, such as `1.10` becoming `1.1` or a date gaining a time.
+ * - Full-line comments stay with the entry below them. An entry with a
+ *   comment inside it (or a `#` that may start one) is kept as written,
+ *   so no comment is lost.
+ * - Blank lines around the body are dropped, but its indentation is kept.
+ *   The body is separated from the frontmatter by one blank line, and the
+ *   file ends with a single newline.
+ *
+ * Formatting is idempotent and does not change the properties that
+ * readProperties() returns.
+ *
+ * @param content - Raw SKILL.md content
+ * @returns The canonical content
+ * @throws ParseError If the frontmatter cannot be parsed
+ *
+ * @example
+ * ```ts
+ * if (formatSkillMd(content) !== content) {
+ *   console.log("SKILL.md is not formatted");
+ * }
+ * ```
+ */
+export function formatSkillMd(content: string): string {
+  const normalized = content.replace(/\r\n?/g, "\n");
+  const parsed = parseSkillMd(normalized);
+  const lines = normalized.split("\n");
+  // Indexes of the first frontmatter line and the closing --- line
+  const first = parsed.frontmatterRange.start.line;
+  const closing = parsed.frontmatterRange.end.line - 1;
+  // Values as YAML wrote them; parsed.metadata has stringified metadata
+  const values = (yaml.load(lines.slice(first, closing).join("\n")) ??
+    {}) as Record<string, unknown>;
+  for (const key of ["name", "description"]) {
+    const value = values[key];
+    if (typeof value === "string") {
+      values[key] = value.trim();
+    }
+  }
+
+  // Full-line comments before each entry, and before/after all entries
+  const comments = (from: number, to: number) =>
+    lines
+      .slice(from, to)
+      .filter((line) => line.trimStart().startsWith("#"))
+      .map((line) => line.trim());
+  const ranges = Object.entries(parsed.fieldRanges).sort(
+    ([, a], [, b]) => a.start.line - b.start.line,
+  );
+  const leading: Record<string, string[]> = {};
+  // Source lines of each entry
+  const sources: Record<string, string[]> = {};
+  let previousEnd = first;
+  for (const [index, [key, range]] of ranges.entries()) {
+    leading[key] =
+      index === 0 ? [] : comments(previousEnd, range.start.line - 1);
+    sources[key] = lines.slice(range.start.line - 1, range.end.line);
+    previousEnd = range.end.line;
+  }
+  const header = comments(
+    first,
+    ranges.length > 0 ? ranges[0]![1].start.line - 1 : closing,
+  );
+  const footer = ranges.length > 0 ? comments(previousEnd, closing) : [];
+
+  const rank = (key: string) =>
+    FIELD_ORDER.includes(key) ? FIELD_ORDER.indexOf(key) : FIELD_ORDER.length;
+  const keys = Object.keys(values).sort((a, b) => rank(a) - rank(b));
+  const frontmatter = [
+    ...header,
+    ...keys.flatMap((key) => [
+      ...(leading[key] ?? []),
+      ...formatEntry(key, values[key], sources[key]),
+    ]),
+    ...footer,
+  ];
+
+  const bodyLines = lines.slice(closing + 1);
+  while (bodyLines.length > 0 && bodyLines[0]!.trim() === "") {
+    bodyLines.shift();
+  }
+  while (bodyLines.length > 0 && bodyLines.at(-1)!.trim() === "") {
+    bodyLines.pop();
+  }
+  const body = bodyLines.length > 0 ? `\n${bodyLines.join("\n")}\n` : "";
+  return `---\n${frontmatter.map((line) => line + "\n").join("")}---\n${body}`;
+}
+
+/** Serialize one frontmatter entry, or keep its source lines.
+ *
+ * The source is kept if it has a comment inside it (or a `#` that may
+ * start one), or if re-serializing would change the text of a scalar,
+ * as YAML would for `1.10`, `0o17` or a date.
+ */
+function formatEntry(
+  key: string,
+  value: unknown,
+  source: string[] | undefined,
+): string[] {
+  const dumped = yaml
+    .dump({ [key]: value }, { lineWidth: -1 })
+    .trimEnd()
+    .split("\n");
+  if (source === undefined) {
+    return dumped;
+  }
+  if (source.some((line) => /(?:^|\s)#/.test(line))) {
+    return source;
+  }
+  return isDeepStrictEqual(scalarText(source), scalarText(dumped))
+    ? dumped
+    : source;
+}
+
+/** Load entry lines with every scalar kept as the text it was written as.
+ *
+ * `name` and `description` are trimmed, as formatSkillMd() trims them.
+ */
+function scalarText(entry: string[]): unknown {
+  const loaded = yaml.load(entry.join("\n"), {
+    schema: yaml.FAILSAFE_SCHEMA,
+  }) as Record<string, unknown>;
+  for (const key of ["name", "description"]) {
+    const value = loaded[key];
+    if (typeof value === "string") {
+      loaded[key] = value.trim();
+    }
+  }
+  return loaded;
+}
+
+/** Format a skill's SKILL.md in place.
+ *
+ * @param skillDir - Path to the skill directory
+ * @param options - Check-only mode
+ * @returns Whether the file changed (or would change) and the diff
+ * @throws ParseError If SKILL.md is missing or its frontmatter is invalid
+ */
+export async function formatSkill(
+  skillDir: string,
+  options: FormatOptions = {},
+): Promise<FormatResult> {
+  const skillMd = await findSkillMd(skillDir);
+  if (skillMd === null) {
+    throw new ParseError(`SKILL.md not found in ${skillDir}`);
+  }
+  const content = await fs.readFile(skillMd, "utf-8");
+  const formatted = formatSkillMd(content);
+  const changed = formatted !== content;
+  if (changed && !options.check) {
+    await fs.writeFile(skillMd, formatted);
+  }
+  return {
+    file: skillMd,
+    changed,
+    diff: unifiedDiff(content, formatted, { fromFile: skillMd }),
+  };
+}
@@ -0,0 +1,86 @@
+/** Minimal glob matching for ignore patterns. */
+
+/** Convert a glob pattern to a regular expression.
+ *
+ * Supports `*` (any run of characters except `/`), `**` (any run of
+ * characters including `/`), `?` (a single character except `/`),
+ * `[...]` character classes and `{a,b}` alternation.
+ *
+ * @param pattern - Glob pattern using `/` as the separator
+ * @returns Anchored regular expression matching the whole input
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+  let i = 0;
+
+  while (i < pattern.length) {
+    const c = pattern[i]!;
+
+    if (c === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more whole path segments
+        if (pattern[i + 2] === "/") {
+          source += "(?:.*/)?";
+          i += 3;
+        } else {
+          source += ".*";
+          i += 2;
+        }
+      } else {
+        source += "[^/]*";
+        i += 1;
+      }
+      continue;
+    }
+
+    if (c === "?") {
+      source += "[^/]";
+    } else if (c === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        let cls = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+        if (cls.startsWith("!")) {
+          cls = "^" + cls.slice(1);
+        }
+        source += `[${cls}]`;
+        i = end;
+      }
+    } else if (c === "{") {
+      braceDepth += 1;
+      source += "(?:";
+    } else if (c === "}" && braceDepth > 0) {
+      braceDepth -= 1;
+      source += ")";
+    } else if (c === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+    i += 1;
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/** Check whether a relative path matches any of the given glob patterns.
+ *
+ * Patterns without a `/` are matched against every path segment, so
+ * `node_modules` ignores that directory at any depth (like .gitignore).
+ *
+ * @param relPath - Path relative to the scan root, using `/` separators
+ * @param patterns - Glob patterns to test
+ * @returns True if any pattern matches
+ */
+export function matchesAnyGlob(relPath: string, patterns: string[]): boolean {
+  const segments = relPath.split("/");
+  return patterns.some((pattern) => {
+    const regex = globToRegExp(pattern);
+    if (pattern.includes("/")) {
+      return regex.test(relPath);
+    }
+    return segments.some((segment) => regex.test(segment));
+  });
+}
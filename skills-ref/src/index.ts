@@ -1,9 +1,179 @@
 /** Reference library for Agent Skills. */
 
-export { SkillError, ParseError, ValidationError } from "./errors.js";
-export { SkillProperties } from "./models.js";
-export { findSkillMd, readProperties, parseFrontmatter } from "./parser.js";
-export { toPrompt } from "./prompt.js";
-export { validate, validateMetadata } from "./validator.js";
+export {
+  lintBody,
+  DEFAULT_MAX_BODY_LINES,
+  DEFAULT_MAX_BODY_TOKENS,
+  type BodyLintOptions,
+} from "./body.js";
+export {
+  discoverSkills,
+  DEFAULT_IGNORE,
+  type DiscoverOptions,
+  type DiscoveredSkill,
+} from "./discovery.js";
+export {
+  formatDiagnostic,
+  hasErrors,
+  toMessages,
+  type Diagnostic,
+  type Severity,
+  type SourcePosition,
+  type SourceRange,
+} from "./diagnostics.js";
+export { unifiedDiff, type DiffOptions } from "./diff.js";
+export {
+  SkillError,
+  ParseError,
+  PolicyError,
+  ResourceError,
+  ValidationError,
+} from "./errors.js";
+export {
+  createSkillFileServer,
+  DEFAULT_MAX_FILE_BYTES,
+  type SkillFile,
+  type SkillFileServer,
+  type SkillFileServerOptions,
+} from "./files.js";
+export {
+  fixSkill,
+  fixSkillMd,
+  type FixedSkillMd,
+  type FixOptions,
+  type FixResult,
+  type SkillFix,
+} from "./fixer.js";
+export {
+  formatSkill,
+  formatSkillMd,
+  type FormatOptions,
+  type FormatResult,
+} from "./format.js";
+export { DEFAULT_DESCRIPTION, initSkill, type InitOptions } from "./init.js";
+export {
+  matchSkills,
+  type MatchableSkill,
+  type MatchOptions,
+  type SkillMatch,
+} from "./match.js";
+export {
+  McpSkillServer,
+  serveMcp,
+  MCP_PROTOCOL_VERSIONS,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type McpServerOptions,
+} from "./mcp.js";
+export { SkillProperties, type JsonValue } from "./models.js";
+export {
+  findSkillMd,
+  readProperties,
+  parseFrontmatter,
+  parseSkillMd,
+  type ParsedSkillMd,
+  type ParseOptions,
+} from "./parser.js";
+export {
+  isToolInvocationAllowed,
+  matchesToolRule,
+  parseAllowedTools,
+  type AllowedTool,
+  type ParsedAllowedTools,
+} from "./permissions.js";
+export {
+  checkPolicy,
+  checkSkillPolicy,
+  loadPolicy,
+  parsePolicy,
+  type ToolPolicy,
+} from "./policy.js";
+export {
+  formatPrompt,
+  formatPromptEntry,
+  loadPromptSkills,
+  renderPrompt,
+  renderTemplate,
+  toPrompt,
+  PROMPT_FIELDS,
+  PROMPT_FORMATS,
+  type PromptBudget,
+  type PromptField,
+  type PromptFormat,
+  type PromptOptions,
+  type PromptPriority,
+  type PromptResult,
+  type PromptSkill,
+} from "./prompt.js";
+export {
+  checkReferences,
+  extractReferences,
+  type FileReference,
+} from "./references.js";
+export {
+  SkillRegistry,
+  type RegistryEntry,
+  type SkillSource,
+} from "./registry.js";
+export { isBinary, listResourceFiles, RESOURCE_DIRS } from "./resources.js";
+export {
+  formatReport,
+  summarize,
+  REPORT_FORMATS,
+  type ReportFormat,
+  type ReportOptions,
+  type ValidationSummary,
+} from "./reporters.js";
+export { loadSkill, Skill } from "./skill.js";
+export {
+  aggregateStats,
+  formatStats,
+  getSkillStats,
+  type AggregateStats,
+  type ContentStats,
+  type ResourceStats,
+  type SkillStats,
+  type StatsOptions,
+} from "./stats.js";
+export { estimateTokens, type Tokenizer } from "./tokens.js";
+export {
+  formatToolDefinitions,
+  toToolDefinitions,
+  TOOL_MODES,
+  TOOL_PROVIDERS,
+  type AnthropicToolDefinition,
+  type JsonSchemaToolDefinition,
+  type OpenAIToolDefinition,
+  type ToolDefinition,
+  type ToolDefinitionOptions,
+  type ToolInputSchema,
+  type ToolMode,
+  type ToolProvider,
+} from "./tools.js";
+export {
+  ALLOWED_FIELDS,
+  validate,
+  validateMetadata,
+  validateSkill,
+  validateSkills,
+  type SkillValidationResult,
+  type ValidateOptions,
+  type ValidateSkillsOptions,
+} from "./validator.js";
+export {
+  SkillWatcher,
+  watchSkills,
+  type SkillChangeEvent,
+  type SkillChangeType,
+  type WatchOptions,
+} from "./watch.js";
+export {
+  FIELD_ORDER,
+  patchFrontmatter,
+  serializeFrontmatter,
+  updateFrontmatter,
+  writeProperties,
+  type FrontmatterPatch,
+} from "./writer.js";
 
-export const version = "0.1.5";
+export { version } from "./version.js";
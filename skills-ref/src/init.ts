@@ -0,0 +1,152 @@
+/** Scaffolding for new skills. */
+
+import * as yaml from "js-yaml";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+
+import { SkillError, ValidationError } from "./errors.js";
+import { RESOURCE_DIRS } from "./resources.js";
+import {
+  type SkillValidationResult,
+  validateMetadata,
+  validateSkill,
+} from "./validator.js";
+
+/** Placeholder description written when none is given. */
+export const DEFAULT_DESCRIPTION =
+  "Describe what this skill does and when an agent should use it.";
+
+/** Options for creating a skill. */
+export interface InitOptions {
+  /** Directory to create the skill in (default: current directory) */
+  parentDir?: string;
+  /** Skill description (default: a placeholder to fill in) */
+  description?: string;
+  /** License name or reference to a bundled license file */
+  license?: string;
+  /** Client-specific key-value metadata */
+  metadata?: Record<string, string>;
+  /** Create scripts/, references/ and assets/ with starter files */
+  resources?: boolean;
+}
+
+// Starter files for each optional directory, keyed by path
+const STARTER_FILES: Record<string, string> = {
+  "scripts/example.sh": `#!/usr/bin/env bash
+# Example helper script. Replace with the scripts your skill needs.
+set -euo pipefail
+
+echo "Hello from $(basename "$0")"
+`,
+  "references/REFERENCE.md": `# Reference
+
+Detailed documentation the agent can read when it needs more than the
+instructions in SKILL.md.
+`,
+  "assets/README.md": `# Assets
+
+Templates, images and other static files used by this skill.
+`,
+};
+
+/** Create a new skill directory with a valid SKILL.md skeleton.
+ *
+ * The directory is named after the skill, so the name and directory always
+ * match. The finished skill is validated (including body and reference
+ * checks) before returning.
+ *
+ * @param name - Skill name; becomes the directory name
+ * @param options - Parent directory, frontmatter values and optional directories
+ * @returns Validation result for the new skill
+ * @throws ValidationError If the name or description would not pass validation
+ * @throws SkillError If the target directory already exists
+ *
+ * @example
+ * ```ts
+ * const result = await initSkill("pdf-reader", {
+ *   description: "Extract text and tables from PDF files",
+ *   resources: true,
+ * });
+ * console.log(result.skillDir, result.valid);
+ * ```
+ */
+export async function initSkill(
+  name: string,
+  options: InitOptions = {},
+): Promise<SkillValidationResult> {
+  const frontmatter: Record<string, unknown> = {
+    name,
+    description: options.description ?? DEFAULT_DESCRIPTION,
+  };
+  if (options.license !== undefined) {
+    frontmatter.license = options.license;
+  }
+  if (options.metadata && Object.keys(options.metadata).length > 0) {
+    frontmatter.metadata = options.metadata;
+  }
+
+  const errors = validateMetadata(frontmatter).filter(
+    (d) => d.severity === "error",
+  );
+  if (errors.length > 0) {
+    throw new ValidationError(errors.map((d) => d.message).join("; "), errors);
+  }
+
+  const skillDir = path.resolve(options.parentDir ?? ".", name);
+  try {
+    await fs.mkdir(skillDir, { recursive: false });
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new SkillError(`Directory already exists: ${skillDir}`);
+    }
+    throw e;
+  }
+
+  if (options.resources) {
+    for (const dir of RESOURCE_DIRS) {
+      await fs.mkdir(path.join(skillDir, dir));
+    }
+    for (const [relPath, content] of Object.entries(STARTER_FILES)) {
+      await fs.writeFile(path.join(skillDir, relPath), content, {
+        mode: relPath.startsWith("scripts/") ? 0o755 : 0o644,
+      });
+    }
+  }
+
+  await fs.writeFile(
+    path.join(skillDir, "SKILL.md"),
+    `---\n${yaml.dump(frontmatter, { lineWidth: -1 })}---\n\n${skeletonBody(name, options.resources ?? false)}`,
+  );
+
+  return validateSkill(skillDir, { lintBody: true, checkReferences: true });
+}
+
+/** Markdown body for a new SKILL.md. */
+function skeletonBody(name: string, resources: boolean): string {
+  const title = name
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+  const lines = [
+    `# ${title}`,
+    "",
+    "## Instructions",
+    "",
+    "Describe, step by step, how the agent should carry out the task.",
+    "",
+    "## Examples",
+    "",
+    "Show an example request and what the agent should do.",
+  ];
+  if (resources) {
+    lines.push(
+      "",
+      "## Resources",
+      "",
+      "- Run `scripts/example.sh` for ...",
+      "- See [the reference](references/REFERENCE.md) for details.",
+      "- Templates live in `assets/`.",
+    );
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,183 @@
+/** Offline lexical matching of user queries to skills. */
+
+import { SkillProperties } from "./models.js";
+
+/** Anything matchSkills can rank: properties, or an object holding them. */
+export type MatchableSkill = SkillProperties | { properties: SkillProperties };
+
+/** A skill ranked against a query. */
+export interface SkillMatch<T extends MatchableSkill = MatchableSkill> {
+  /** The skill as passed to matchSkills */
+  skill: T;
+  /** BM25 relevance score; higher is more relevant */
+  score: number;
+  /** Query words that matched the skill, in query order */
+  matchedTerms: string[];
+}
+
+/** Options for ranking skills. */
+export interface MatchOptions {
+  /** Return at most this many matches (default: all) */
+  topK?: number;
+  /** Drop matches scoring below this (default: any positive score) */
+  minScore?: number;
+  /** How many times name terms count relative to description terms (default: 2) */
+  nameWeight?: number;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  (
+    "a about an and are as at be but by can do does for from how i if in " +
+    "into is it its me my of on or please so some that the their them then " +
+    "there these this to use used using want was we what when where which " +
+    "while who will with you your"
+  ).split(" "),
+);
+
+/** Rank skills by lexical relevance to a query.
+ *
+ * Scores each skill with BM25 over its name and description. Words are
+ * lowercased, split on non-alphanumeric characters (so `pdf-reader` is
+ * `pdf` and `reader`), filtered for common stopwords and reduced to a
+ * crude stem, so "extracting PDFs" matches "Extract text from PDF files".
+ * Skills that share no terms with the query are left out. Runs entirely
+ * locally; useful for narrowing a large catalog before toPrompt().
+ *
+ * @param query - What the user asked for
+ * @param skills - Candidate skills
+ * @param options - Result count, score threshold and name weighting
+ * @returns Matches sorted by descending score, then by name
+ *
+ * @example
+ * ```ts
+ * const entries = registry.list();
+ * const matches = matchSkills("fill in a PDF form", entries, { topK: 3 });
+ * const prompt = formatPrompt(matches.map((m) => m.skill));
+ * ```
+ */
+export function matchSkills<T extends MatchableSkill>(
+  query: string,
+  skills: T[],
+  options: MatchOptions = {},
+): SkillMatch<T>[] {
+  const nameWeight = options.nameWeight ?? 2;
+  const queryTerms = analyze(query);
+  if (queryTerms.length === 0 || skills.length === 0) {
+    return [];
+  }
+
+  // Term frequencies and length of each skill document
+  const documents = skills.map((skill) => {
+    const props = propertiesOf(skill);
+    const frequencies = new Map<string, number>();
+    const add = (text: string, weight: number) => {
+      for (const { stem } of analyze(text)) {
+        frequencies.set(stem, (frequencies.get(stem) ?? 0) + weight);
+      }
+    };
+    add(props.name, nameWeight);
+    add(props.description, 1);
+    let length = 0;
+    for (const count of frequencies.values()) {
+      length += count;
+    }
+    return { skill, frequencies, length };
+  });
+
+  const averageLength =
+    documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+  const stems = [...new Set(queryTerms.map((term) => term.stem))];
+  const idf = new Map(
+    stems.map((stem) => {
+      const df = documents.filter((doc) => doc.frequencies.has(stem)).length;
+      return [
+        stem,
+        Math.log(1 + (documents.length - df + 0.5) / (df + 0.5)),
+      ] as const;
+    }),
+  );
+
+  const matches: SkillMatch<T>[] = [];
+  for (const doc of documents) {
+    let score = 0;
+    for (const stem of stems) {
+      const tf = doc.frequencies.get(stem) ?? 0;
+      score +=
+        (idf.get(stem)! * tf * (K1 + 1)) /
+        (tf + K1 * (1 - B + (B * doc.length) / averageLength));
+    }
+    if (score <= 0 || score < (options.minScore ?? 0)) {
+      continue;
+    }
+    const matchedTerms = [
+      ...new Set(
+        queryTerms
+          .filter((term) => doc.frequencies.has(term.stem))
+          .map((term) => term.word),
+      ),
+    ];
+    matches.push({ skill: doc.skill, score, matchedTerms });
+  }
+
+  matches.sort(
+    (a, b) =>
+      b.score - a.score ||
+      propertiesOf(a.skill).name.localeCompare(propertiesOf(b.skill).name),
+  );
+  return options.topK === undefined ? matches : matches.slice(0, options.topK);
+}
+
+/** Get the properties of a matchable skill. */
+function propertiesOf(skill: MatchableSkill): SkillProperties {
+  return skill instanceof SkillProperties ? skill : skill.properties;
+}
+
+/** Split text into lowercase words with their stems, dropping stopwords. */
+function analyze(text: string): { word: string; stem: string }[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((word) => !STOPWORDS.has(word))
+    .map((word) => ({ word, stem: stem(word) }));
+}
+
+/** Reduce an English word to a crude stem by stripping common suffixes.
+ *
+ * Not a full Porter stemmer; it only needs to map the same word's
+ * inflections to one key, and is applied to queries and skills alike.
+ */
+function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) {
+    return word;
+  }
+  let result = word;
+  if (result.endsWith("ies") && result.length > 4) {
+    result = result.slice(0, -3) + "y";
+  } else if (result.endsWith("sses")) {
+    result = result.slice(0, -2);
+  } else if (
+    result.endsWith("s") &&
+    !result.endsWith("ss") &&
+    !result.endsWith("us")
+  ) {
+    result = result.slice(0, -1);
+  }
+
+  for (const suffix of ["ion", "ing", "ed", "er", "ly"]) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      result = result.slice(0, -suffix.length);
+      // running -> runn -> run
+      if (/([^aeiouls])\1$/.test(result)) {
+        result = result.slice(0, -1);
+      }
+      break;
+    }
+  }
+
+  if (result.endsWith("e") && result.length > 4) {
+    result = result.slice(0, -1);
+  }
+  return result;
+}
@@ -0,0 +1,352 @@
+/** Model Context Protocol server exposing skills as resources and tools. */
+
+import * as path from "node:path";
+import { createInterface } from "node:readline";
+import { type Readable, type Writable } from "node:stream";
+
+import { formatDiagnostic } from "./diagnostics.js";
+import { ResourceError } from "./errors.js";
+import {
+  createSkillFileServer,
+  type SkillFileServer,
+  type SkillFileServerOptions,
+} from "./files.js";
+import { SkillRegistry } from "./registry.js";
+import { loadSkill } from "./skill.js";
+import {
+  type AnthropicToolDefinition,
+  formatToolDefinitions,
+} from "./tools.js";
+import { version } from "./version.js";
+
+/** MCP protocol revisions this server can speak, newest first. */
+export const MCP_PROTOCOL_VERSIONS = [
+  "2025-06-18",
+  "2025-03-26",
+  "2024-11-05",
+] as const;
+
+/** A JSON-RPC 2.0 request or notification. */
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  /** Absent for notifications */
+  id?: string | number;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/** A JSON-RPC 2.0 response. */
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/** Options for the MCP server. */
+export interface McpServerOptions extends SkillFileServerOptions {
+  /** Server name reported to clients (default: "skills-ref") */
+  name?: string;
+}
+
+// JSON-RPC error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+// MCP error code for unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+
+const SKILL_URI = /^skill:\/\/([^/]+)\/(.+)$/;
+const ACTIVATE_TOOL = "activate_skill";
+
+/** Error that is reported to the client as a JSON-RPC error. */
+class RpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/** Serves the skills of a registry over the Model Context Protocol.
+ *
+ * Each skill's SKILL.md is listed as a resource at
+ * `skill://<name>/SKILL.md`, and any file in the skill can be read through
+ * the `skill://{skill}/{+path}` resource template, with the same path
+ * checks and size limit as createSkillFileServer(). An `activate_skill`
+ * tool returns a skill's instructions and lists its bundled files.
+ *
+ * @example
+ * ```ts
+ * const registry = await new SkillRegistry(["./skills"]).load();
+ * const server = await McpSkillServer.create(registry);
+ * await server.listen(process.stdin, process.stdout);
+ * ```
+ */
+export class McpSkillServer {
+  readonly registry: SkillRegistry;
+  private readonly files: SkillFileServer;
+  private readonly name: string;
+
+  constructor(
+    registry: SkillRegistry,
+    files: SkillFileServer,
+    options: McpServerOptions = {},
+  ) {
+    this.registry = registry;
+    this.files = files;
+    this.name = options.name ?? "skills-ref";
+  }
+
+  /** Create a server for a loaded registry.
+   *
+   * @param registry - Registry providing the skill catalog
+   * @param options - Server name and file size limit
+   * @returns The server, ready to handle messages
+   */
+  static async create(
+    registry: SkillRegistry,
+    options: McpServerOptions = {},
+  ): Promise<McpSkillServer> {
+    return new McpSkillServer(
+      registry,
+      await createSkillFileServer(registry, options),
+      options,
+    );
+  }
+
+  /** Handle one JSON-RPC message.
+   *
+   * @param message - Parsed request or notification
+   * @returns The response, or undefined for notifications
+   */
+  async handle(message: unknown): Promise<JsonRpcResponse | undefined> {
+    if (!isRequest(message)) {
+      return rpcError(null, INVALID_REQUEST, "Invalid request");
+    }
+    const id = message.id;
+
+    try {
+      const result = await this.dispatch(message.method, message.params ?? {});
+      return id === undefined ? undefined : { jsonrpc: "2.0", id, result };
+    } catch (e) {
+      if (id === undefined) {
+        return undefined;
+      }
+      if (e instanceof RpcError) {
+        return rpcError(id, e.code, e.message);
+      }
+      return rpcError(id, INTERNAL_ERROR, String(e));
+    }
+  }
+
+  /** Serve newline-delimited JSON-RPC messages until the input ends.
+   *
+   * @param input - Stream of client messages (e.g. process.stdin)
+   * @param output - Stream for server messages (e.g. process.stdout)
+   */
+  async listen(input: Readable, output: Writable): Promise<void> {
+    const lines = createInterface({ input, crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      let response: JsonRpcResponse | undefined;
+      try {
+        response = await this.handle(JSON.parse(line));
+      } catch {
+        response = rpcError(null, PARSE_ERROR, "Parse error");
+      }
+      if (response !== undefined) {
+        output.write(JSON.stringify(response) + "\n");
+      }
+    }
+  }
+
+  private async dispatch(
+    method: string,
+    params: Record<string, unknown>,
+  ): Promise<unknown> {
+    switch (method) {
+      case "initialize":
+        return this.initialize(params);
+      case "notifications/initialized":
+      case "ping":
+        return {};
+      case "resources/list":
+        return { resources: this.listResources() };
+      case "resources/templates/list":
+        return {
+          resourceTemplates: [
+            {
+              uriTemplate: "skill://{skill}/{+path}",
+              name: "skill-file",
+              description:
+                "A file bundled with a skill, by path relative to the skill root",
+            },
+          ],
+        };
+      case "resources/read":
+        return this.readResource(stringParam(params, "uri"));
+      case "tools/list":
+        return { tools: this.listTools() };
+      case "tools/call":
+        return this.callTool(
+          stringParam(params, "name"),
+          (params.arguments ?? {}) as Record<string, unknown>,
+        );
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private initialize(params: Record<string, unknown>) {
+    const requested = params.protocolVersion;
+    const protocolVersion = (
+      MCP_PROTOCOL_VERSIONS as readonly unknown[]
+    ).includes(requested)
+      ? requested
+      : MCP_PROTOCOL_VERSIONS[0];
+    return {
+      protocolVersion,
+      capabilities: { resources: {}, tools: {} },
+      serverInfo: { name: this.name, version },
+    };
+  }
+
+  private listResources() {
+    return this.registry.list().map((entry) => ({
+      uri: skillUri(entry.name, path.basename(entry.location)),
+      name: entry.name,
+      description: entry.properties.description,
+      mimeType: "text/markdown",
+    }));
+  }
+
+  private async readResource(uri: string) {
+    const match = SKILL_URI.exec(uri);
+    if (match === null) {
+      throw new RpcError(INVALID_PARAMS, `Not a skill URI: ${uri}`);
+    }
+
+    let skill: string;
+    let relPath: string;
+    try {
+      skill = decodeURIComponent(match[1]!);
+      relPath = decodeURIComponent(match[2]!);
+    } catch {
+      throw new RpcError(INVALID_PARAMS, `Malformed skill URI: ${uri}`);
+    }
+
+    try {
+      const file = await this.files.readFile(skill, relPath);
+      return {
+        contents: [
+          file.binary
+            ? { uri, mimeType: file.mimeType, blob: file.content }
+            : { uri, mimeType: file.mimeType, text: file.content },
+        ],
+      };
+    } catch (e) {
+      if (e instanceof ResourceError) {
+        throw new RpcError(RESOURCE_NOT_FOUND, e.message);
+      }
+      throw e;
+    }
+  }
+
+  private listTools() {
+    const skills = this.registry.list().map((entry) => entry.properties);
+    return formatToolDefinitions(skills, { toolName: ACTIVATE_TOOL }).map(
+      (tool) => {
+        const { name, description, input_schema } =
+          tool as AnthropicToolDefinition;
+        return { name, description, inputSchema: input_schema };
+      },
+    );
+  }
+
+  private async callTool(name: string, args: Record<string, unknown>) {
+    if (name !== ACTIVATE_TOOL) {
+      throw new RpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+    const entry = this.registry.get(String(args.name));
+    if (entry === undefined) {
+      return {
+        content: [{ type: "text", text: `Unknown skill '${args.name}'` }],
+        isError: true,
+      };
+    }
+
+    const skill = await loadSkill(entry.path);
+    const resources = await skill.listResources();
+    const lines = [await skill.getInstructions()];
+    if (resources.length > 0) {
+      lines.push(
+        "",
+        "Bundled files (read them as resources when needed):",
+        ...resources.map((relPath) => `- ${skillUri(entry.name, relPath)}`),
+      );
+    }
+    return { content: [{ type: "text", text: lines.join("\n") }] };
+  }
+}
+
+/** Check the basic shape of a JSON-RPC request. */
+function isRequest(message: unknown): message is JsonRpcRequest {
+  if (typeof message !== "object" || message === null) {
+    return false;
+  }
+  const request = message as Record<string, unknown>;
+  return request.jsonrpc === "2.0" && typeof request.method === "string";
+}
+
+/** Read a required string parameter. */
+function stringParam(params: Record<string, unknown>, key: string): string {
+  const value = params[key];
+  if (typeof value !== "string") {
+    throw new RpcError(INVALID_PARAMS, `Missing string parameter '${key}'`);
+  }
+  return value;
+}
+
+/** Build a JSON-RPC error response. */
+function rpcError(
+  id: string | number | null,
+  code: number,
+  message: string,
+): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, error: { code, message } };
+}
+
+/** Build the URI of a file in a skill. */
+function skillUri(skill: string, relPath: string): string {
+  return `skill://${encodeURIComponent(skill)}/${relPath
+    .split("/")
+    .map(encodeURIComponent)
+    .join("/")}`;
+}
+
+/** Run an MCP server over stdio for the skills under the given directories.
+ *
+ * Directories are registry sources in precedence order. Registry
+ * diagnostics are written to stderr, since stdout carries the protocol.
+ *
+ * @param roots - Directories to load skills from
+ * @param options - Server name and file size limit
+ * @returns Resolves when stdin closes
+ */
+export async function serveMcp(
+  roots: string[],
+  options: McpServerOptions = {},
+): Promise<void> {
+  const registry = await new SkillRegistry(roots).load();
+  for (const diagnostic of registry.diagnostics) {
+    console.error(formatDiagnostic(diagnostic));
+  }
+  const server = await McpSkillServer.create(registry, options);
+  await server.listen(process.stdin, process.stdout);
+}
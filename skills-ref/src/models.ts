@@ -1,5 +1,14 @@
 /** Data models for Agent Skills. */
 
+/** A JSON-compatible value, as kept in typed metadata. */
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
 /** Properties parsed from a skill's SKILL.md frontmatter. */
 export class SkillProperties {
   /** Skill name in kebab-case (required) */
@@ -14,6 +23,8 @@ export class SkillProperties {
   readonly allowedTools?: string;
   /** Key-value pairs for client-specific properties */
   readonly metadata: Record<string, string>;
+  /** Metadata with YAML types kept, if read with `typedMetadata` */
+  readonly typedMetadata?: Record<string, JsonValue>;
 
   constructor(
     name: string,
@@ -22,6 +33,7 @@ export class SkillProperties {
     compatibility?: string,
     allowedTools?: string,
     metadata: Record<string, string> = {},
+    typedMetadata?: Record<string, JsonValue>,
   ) {
     this.name = name;
     this.description = description;
@@ -29,6 +41,26 @@ export class SkillProperties {
     this.compatibility = compatibility;
     this.allowedTools = allowedTools;
     this.metadata = metadata;
+    this.typedMetadata = typedMetadata;
+  }
+
+  /** Get a metadata value with its YAML type.
+   *
+   * Falls back to the string value when the properties were read without
+   * `typedMetadata`.
+   *
+   * @param key - Metadata key
+   * @returns The value, or undefined if the key is not set
+   *
+   * @example
+   * ```ts
+   * const props = await readProperties("./pdf-reader", { typedMetadata: true });
+   * const tags = props.getMetadata("tags"); // e.g. ["pdf", "documents"]
+   * ```
+   */
+  getMetadata(key: string): JsonValue | undefined {
+    const metadata = this.typedMetadata ?? this.metadata;
+    return Object.hasOwn(metadata, key) ? metadata[key] : undefined;
   }
 
   /** Convert to dictionary, excluding undefined values. */
@@ -46,8 +78,9 @@ export class SkillProperties {
     if (this.allowedTools !== undefined) {
       result["allowed-tools"] = this.allowedTools;
     }
-    if (Object.keys(this.metadata).length > 0) {
-      result.metadata = this.metadata;
+    const metadata = this.typedMetadata ?? this.metadata;
+    if (Object.keys(metadata).length > 0) {
+      result.metadata = metadata;
     }
     return result;
   }
@@ -4,8 +4,9 @@ import * as yaml from "js-yaml";
 import { promises as fs } from "node:fs";
 import * as path from "node:path";
 
+import { type SourcePosition, type SourceRange } from "./diagnostics.js";
 import { ParseError, ValidationError } from "./errors.js";
-import { SkillProperties } from "./models.js";
+import { type JsonValue, SkillProperties } from "./models.js";
 
 /** Find the SKILL.md file in a skill directory.
  *
@@ -27,67 +28,429 @@ export async function findSkillMd(skillDir: string): Promise<string | null> {
   return null;
 }
 
-/** Parse YAML frontmatter from SKILL.md content.
+/** Options for parsing SKILL.md. */
+export interface ParseOptions {
+  /** Keep `metadata` values as JSON-compatible values instead of
+   *  converting each to a string (default: false) */
+  typedMetadata?: boolean;
+}
+
+/** Result of parsing a SKILL.md file, with source locations. */
+export interface ParsedSkillMd {
+  /** Parsed YAML frontmatter */
+  metadata: Record<string, unknown>;
+  /** Markdown body with surrounding whitespace trimmed */
+  body: string;
+  /** Line on which the trimmed body starts */
+  bodyStartLine: number;
+  /** Span of the frontmatter block, including both --- delimiters */
+  frontmatterRange: SourceRange;
+  /** Span of each top-level frontmatter entry, keyed by field name */
+  fieldRanges: Record<string, SourceRange>;
+}
+
+/** Convert a character offset in `text` to a 1-based line and column. */
+function positionAt(text: string, offset: number): SourcePosition {
+  const before = text.slice(0, offset);
+  const line = before.split("\n").length;
+  const column = offset - before.lastIndexOf("\n");
+  return { line, column };
+}
+
+/** Range covering `length` characters starting at `offset`. */
+function rangeAt(text: string, offset: number, length: number): SourceRange {
+  return {
+    start: positionAt(text, offset),
+    end: positionAt(text, offset + length),
+  };
+}
+
+// A mapping key, optionally quoted, at the start of the text
+const KEY = /^(?:"([^"]*)"|'([^']*)'|([^\s#:'"-][^:]*?))\s*:(?=\s|$)/;
+
+/** Locate each top-level entry in the frontmatter text.
  *
- * @param content - Raw content of SKILL.md file
- * @returns Tuple of (metadata dict, markdown body)
- * @throws ParseError If frontmatter is missing or invalid
+ * An entry spans from its key to the last non-blank, non-comment line
+ * before the next top-level key.
  */
-export function parseFrontmatter(
+function scanFieldRanges(
   content: string,
-): [Record<string, unknown>, string] {
-  if (!content.startsWith("---")) {
-    throw new ParseError("SKILL.md must start with YAML frontmatter (---)");
+  frontmatterOffset: number,
+  frontmatterStr: string,
+): Record<string, SourceRange> {
+  const ranges: Record<string, SourceRange> = {};
+  let current: { key: string; start: number; end: number } | null = null;
+  let offset = frontmatterOffset;
+
+  const close = () => {
+    if (current && !(current.key in ranges)) {
+      ranges[current.key] = {
+        start: positionAt(content, current.start),
+        end: positionAt(content, current.end),
+      };
+    }
+  };
+
+  for (const rawLine of frontmatterStr.split("\n")) {
+    const line = rawLine.replace(/\r$/, "");
+    const match = KEY.exec(line);
+    if (match) {
+      close();
+      const key = match[1] ?? match[2] ?? match[3]!;
+      current = { key, start: offset, end: offset + line.length };
+    } else if (current && line.trim() && !line.trimStart().startsWith("#")) {
+      current.end = offset + line.length;
+    }
+    offset += rawLine.length + 1;
   }
+  close();
+
+  return ranges;
+}
 
-  const parts = content.split("---", 3);
-  if (parts.length < 3) {
-    throw new ParseError("SKILL.md frontmatter not properly closed with ---");
+// A line that opens or closes the frontmatter block
+const DELIMITER = /^---[ \t]*\r?$/;
+
+/** Locate the lines that open and close the frontmatter.
+ *
+ * Only a line consisting of `---` counts as a delimiter, so values that
+ * contain `---` are left alone. Blank lines before the opening delimiter
+ * are skipped.
+ *
+ * @param text - SKILL.md content without a byte order mark
+ * @returns Offsets at which the opening and closing delimiter lines start
+ * @throws ParseError If either delimiter is missing
+ */
+function findDelimiters(text: string): { open: number; close: number } {
+  let open: number | null = null;
+  let offset = 0;
+  for (const line of text.split("\n")) {
+    if (open === null && DELIMITER.test(line)) {
+      open = offset;
+    } else if (open === null && line.trim()) {
+      break;
+    } else if (open !== null && DELIMITER.test(line)) {
+      return { open, close: offset };
+    }
+    offset += line.length + 1;
+  }
+  if (open === null) {
+    const start = text.length - text.trimStart().length;
+    throw new ParseError(
+      "SKILL.md must start with YAML frontmatter (---)",
+      rangeAt(text, text.lastIndexOf("\n", start) + 1, 0),
+    );
   }
+  throw new ParseError(
+    "SKILL.md frontmatter not properly closed with ---",
+    rangeAt(text, open, 3),
+  );
+}
 
-  const frontmatterStr = parts[1]!;
-  const body = parts[2]!.trim();
+/** A YAML anchor, alias or tag found in frontmatter. */
+interface NodeProperty {
+  kind: "anchor" | "alias" | "tag";
+  /** Offset of the token within the scanned text */
+  offset: number;
+  /** The token as written, e.g. `&base` or `!!str` */
+  token: string;
+}
 
-  let metadata: Record<string, unknown>;
-  try {
-    const parsed = yaml.load(frontmatterStr);
-    // Check if parsed value is an array (list in YAML terms)
-    if (Array.isArray(parsed)) {
-      throw new ParseError("SKILL.md frontmatter must be a YAML mapping");
+const NODE_PROPERTIES: Record<string, NodeProperty["kind"]> = {
+  "&": "anchor",
+  "*": "alias",
+  "!": "tag",
+};
+
+/** Index of the quote closing a quoted scalar, or -1 if the line ends first. */
+function closingQuote(line: string, from: number, quote: string): number {
+  for (let i = from; i < line.length; i++) {
+    if (quote === '"' && line[i] === "\\") {
+      i++;
+    } else if (quote === "'" && line[i] === "'" && line[i + 1] === "'") {
+      i++;
+    } else if (line[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/** Find the first anchor, alias or tag in YAML text.
+ *
+ * Scans just far enough to tell where a node may start: quoted scalars,
+ * comments, flow collections, block scalars and plain values continued
+ * on more indented lines are skipped, so the `&` in `description: Q&A`
+ * is not mistaken for an anchor.
+ *
+ * @param yamlText - Frontmatter YAML
+ * @returns The first node property, or null if there is none
+ */
+function findNodeProperty(yamlText: string): NodeProperty | null {
+  let quote: string | null = null;
+  let flowDepth = 0;
+  let expectNode = true;
+  // Lines indented deeper than this continue a block or plain scalar
+  let scalarIndent: number | null = null;
+  let offset = 0;
+
+  for (const rawLine of yamlText.split("\n")) {
+    const lineOffset = offset;
+    offset += rawLine.length + 1;
+    const line = rawLine.replace(/\r$/, "");
+    const indent = line.length - line.trimStart().length;
+    if (scalarIndent !== null) {
+      if (!line.trim() || indent > scalarIndent) {
+        continue;
+      }
+      scalarIndent = null;
+    }
+    if (quote === null && flowDepth === 0) {
+      expectNode = true;
+    }
+
+    let plainValue = false;
+    for (let i = 0; i < line.length; i++) {
+      const c = line[i]!;
+      if (quote !== null) {
+        const close = closingQuote(line, i, quote);
+        if (close === -1) {
+          break;
+        }
+        quote = null;
+        i = close;
+        continue;
+      }
+      if (c === " " || c === "\t") {
+        continue;
+      }
+      if (c === "#" && (i === 0 || /[ \t]/.test(line[i - 1]!))) {
+        break;
+      }
+      const next = line[i + 1];
+      const separated = next === undefined || next === " " || next === "\t";
+
+      if (expectNode) {
+        const kind = NODE_PROPERTIES[c];
+        if (kind !== undefined) {
+          const token = /^[^\s,[\]{}]+/.exec(line.slice(i))![0];
+          return { kind, offset: lineOffset + i, token };
+        }
+        if (c === '"' || c === "'") {
+          quote = c;
+          expectNode = false;
+          continue;
+        }
+        if ((c === "-" || c === "?") && separated) {
+          continue;
+        }
+        if (c === "[" || c === "{") {
+          flowDepth++;
+          continue;
+        }
+        if ((c === "|" || c === ">") && flowDepth === 0) {
+          scalarIndent = indent;
+          break;
+        }
+        expectNode = false;
+        plainValue = flowDepth === 0;
+      } else if (
+        c === ":" &&
+        (separated || (flowDepth > 0 && /[,[\]{}]/.test(next!)))
+      ) {
+        expectNode = true;
+        plainValue = false;
+      }
+
+      if (flowDepth > 0 && c === ",") {
+        expectNode = true;
+      } else if (flowDepth > 0 && (c === "]" || c === "}")) {
+        flowDepth--;
+        expectNode = false;
+      }
+    }
+    if (plainValue && quote === null) {
+      scalarIndent = indent;
     }
-    metadata = (parsed ?? {}) as Record<string, unknown>;
+  }
+  return null;
+}
+
+/** Check whether a value loaded from YAML is a mapping. */
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Convert a value loaded from YAML to a JSON-compatible value.
+ *
+ * Timestamps become ISO 8601 strings, and numbers JSON cannot represent
+ * (`.nan`, `.inf`) become their string form.
+ */
+function toJsonValue(value: unknown): JsonValue {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, toJsonValue(v)]),
+    );
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    return String(value);
+  }
+  return value as JsonValue;
+}
+
+/** Parse SKILL.md content, recording where each part sits in the file.
+ *
+ * The frontmatter is delimited by lines consisting of `---`. A leading
+ * byte order mark and CRLF line endings are accepted. Duplicate keys,
+ * anchors, aliases and tags are rejected rather than resolved, so what
+ * a reader sees in the file is what the skill declares.
+ *
+ * By default every `metadata` value is converted to a string; nested
+ * mappings and lists do not survive this, so validate() reports them.
+ * With `typedMetadata`, values keep their YAML types.
+ *
+ * @param content - Raw content of SKILL.md file
+ * @param options - Whether to keep metadata values typed
+ * @returns Parsed frontmatter and body with source ranges
+ * @throws ParseError If frontmatter is missing or invalid. The error's
+ *         `range` points at the offending location and its `code` names
+ *         the problem.
+ */
+export function parseSkillMd(
+  content: string,
+  options: ParseOptions = {},
+): ParsedSkillMd {
+  // Editors do not show a byte order mark, so positions leave it out
+  const text = content.startsWith("\uFEFF") ? content.slice(1) : content;
+  const { open, close } = findDelimiters(text);
+
+  const frontmatterOffset = text.indexOf("\n", open) + 1;
+  const frontmatterStr = text.slice(frontmatterOffset, close);
+  const bodyOffset = close + 3;
+  const rawBody = text.slice(bodyOffset);
+  const body = rawBody.replace(/\r\n/g, "\n").trim();
+  const frontmatterRange = rangeAt(text, open, bodyOffset - open);
+
+  const property = findNodeProperty(frontmatterStr);
+  if (property !== null) {
+    const hint =
+      property.kind === "anchor" ? "" : "; quote the value if it is text";
+    throw new ParseError(
+      `YAML ${property.kind} '${property.token}' is not allowed in frontmatter${hint}`,
+      rangeAt(text, frontmatterOffset + property.offset, property.token.length),
+      `frontmatter-${property.kind}`,
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = yaml.load(frontmatterStr);
   } catch (e) {
-    throw new ParseError(`Invalid YAML in frontmatter: ${e}`);
+    const mark = e instanceof yaml.YAMLException ? e.mark : undefined;
+    const key =
+      mark && (e as yaml.YAMLException).reason === "duplicated mapping key"
+        ? KEY.exec(frontmatterStr.slice(mark.position))
+        : null;
+    if (key) {
+      throw new ParseError(
+        `Duplicate key '${key[1] ?? key[2] ?? key[3]}' in frontmatter`,
+        rangeAt(
+          text,
+          frontmatterOffset + mark!.position,
+          key[0].replace(/\s*:$/, "").length,
+        ),
+        "frontmatter-duplicate-key",
+      );
+    }
+    throw new ParseError(
+      `Invalid YAML in frontmatter: ${e}`,
+      mark
+        ? rangeAt(text, frontmatterOffset + mark.position, 0)
+        : frontmatterRange,
+    );
   }
 
-  if (typeof metadata !== "object" || metadata === null) {
-    throw new ParseError("SKILL.md frontmatter must be a YAML mapping");
+  // Check if parsed value is an array (list in YAML terms)
+  if (Array.isArray(parsed) || (typeof parsed !== "object" && parsed != null)) {
+    throw new ParseError(
+      "SKILL.md frontmatter must be a YAML mapping",
+      frontmatterRange,
+    );
   }
+  const metadata = (parsed ?? {}) as Record<string, unknown>;
 
   if ("metadata" in metadata) {
     const metaValue = metadata.metadata;
-    if (typeof metaValue === "object" && metaValue !== null) {
+    if (isMapping(metaValue)) {
       metadata.metadata = Object.fromEntries(
-        Object.entries(metaValue).map(([k, v]) => [String(k), String(v)]),
+        Object.entries(metaValue).map(([k, v]) => {
+          const value = toJsonValue(v);
+          return [k, options.typedMetadata ? value : String(value)];
+        }),
       );
     }
   }
 
+  const leadingWhitespace = rawBody.length - rawBody.trimStart().length;
+  return {
+    metadata,
+    body,
+    bodyStartLine: positionAt(text, bodyOffset + leadingWhitespace).line,
+    frontmatterRange,
+    fieldRanges: scanFieldRanges(text, frontmatterOffset, frontmatterStr),
+  };
+}
+
+/** Parse YAML frontmatter from SKILL.md content.
+ *
+ * @param content - Raw content of SKILL.md file
+ * @param options - Whether to keep metadata values typed
+ * @returns Tuple of (metadata dict, markdown body)
+ * @throws ParseError If frontmatter is missing or invalid
+ */
+export function parseFrontmatter(
+  content: string,
+  options: ParseOptions = {},
+): [Record<string, unknown>, string] {
+  const { metadata, body } = parseSkillMd(content, options);
   return [metadata, body];
 }
 
+/** Create a ValidationError carrying a single located field diagnostic. */
+function invalidField(
+  code: string,
+  field: string,
+  message: string,
+  file: string,
+  parsed: ParsedSkillMd,
+): ValidationError {
+  const range = parsed.fieldRanges[field] ?? parsed.frontmatterRange;
+  return new ValidationError(message, [
+    { code, severity: "error", field, message, file, range },
+  ]);
+}
+
 /** Read skill properties from SKILL.md frontmatter.
  *
  * This function parses the frontmatter and returns properties.
  * It does NOT perform full validation. Use validate() for that.
  *
  * @param skillDir - Path to the skill directory
+ * @param options - Whether to also keep metadata values typed, for
+ *        SkillProperties.getMetadata()
  * @returns SkillProperties with parsed metadata
  * @throws ParseError If SKILL.md is missing or has invalid YAML
  * @throws ValidationError If required fields (name, description) are missing
  */
 export async function readProperties(
   skillDir: string,
+  options: ParseOptions = {},
 ): Promise<SkillProperties> {
   const skillMd = await findSkillMd(skillDir);
 
@@ -96,14 +459,25 @@ export async function readProperties(
   }
 
   const content = await fs.readFile(skillMd, "utf-8");
-  const [metadata] = parseFrontmatter(content);
+  const parsed = parseSkillMd(content, options);
+  const { metadata } = parsed;
 
   if (!("name" in metadata)) {
-    throw new ValidationError("Missing required field in frontmatter: name");
+    throw invalidField(
+      "name-missing",
+      "name",
+      "Missing required field in frontmatter: name",
+      skillMd,
+      parsed,
+    );
   }
   if (!("description" in metadata)) {
-    throw new ValidationError(
+    throw invalidField(
+      "description-missing",
+      "description",
       "Missing required field in frontmatter: description",
+      skillMd,
+      parsed,
     );
   }
 
@@ -111,18 +485,36 @@ export async function readProperties(
   const description = metadata.description;
 
   if (typeof name !== "string" || !name.trim()) {
-    throw new ValidationError("Field 'name' must be a non-empty string");
+    throw invalidField(
+      "name-empty",
+      "name",
+      "Field 'name' must be a non-empty string",
+      skillMd,
+      parsed,
+    );
   }
   if (typeof description !== "string" || !description.trim()) {
-    throw new ValidationError("Field 'description' must be a non-empty string");
+    throw invalidField(
+      "description-empty",
+      "description",
+      "Field 'description' must be a non-empty string",
+      skillMd,
+      parsed,
+    );
   }
 
+  const metadataValues = isMapping(metadata.metadata) ? metadata.metadata : {};
   return new SkillProperties(
     name.trim(),
     description.trim(),
     metadata.license as string | undefined,
     metadata.compatibility as string | undefined,
     metadata["allowed-tools"] as string | undefined,
-    (metadata.metadata as Record<string, string>) ?? {},
+    Object.fromEntries(
+      Object.entries(metadataValues).map(([k, v]) => [k, String(v)]),
+    ),
+    options.typedMetadata
+      ? (metadataValues as Record<string, JsonValue>)
+      : undefined,
   );
 }
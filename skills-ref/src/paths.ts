@@ -0,0 +1,22 @@
+/** Path containment checks shared by modules that guard skill files. */
+
+import * as path from "node:path";
+
+/** Check whether `child` is `parent` or lies below it.
+ *
+ * Both paths should be absolute. The check is lexical: resolve symlinks
+ * with `fs.realpath` first where a link could lead outside `parent`. A
+ * name that merely starts with `..`, such as `..notes.md`, stays inside.
+ *
+ * @param parent - Containing directory
+ * @param child - Path to check
+ * @returns True if `child` does not escape `parent`
+ */
+export function isWithin(parent: string, child: string): boolean {
+  const relative = path.relative(parent, child);
+  return (
+    relative !== ".." &&
+    !relative.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relative)
+  );
+}
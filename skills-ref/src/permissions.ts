@@ -0,0 +1,293 @@
+/** Parsing and matching of the experimental `allowed-tools` field. */
+
+import { type Diagnostic } from "./diagnostics.js";
+
+/** One entry of an `allowed-tools` value, e.g. `Bash(git:*)`. */
+export interface AllowedTool {
+  /** Tool name, possibly a glob such as `mcp__github__*` */
+  tool: string;
+  /** Argument pattern from the parentheses, if any */
+  pattern?: string;
+  /** The entry as written */
+  raw: string;
+  /** 1-based column of the entry within the field value */
+  column: number;
+}
+
+/** Entries of an `allowed-tools` value and any syntax problems found. */
+export interface ParsedAllowedTools {
+  entries: AllowedTool[];
+  diagnostics: Diagnostic[];
+}
+
+const TOOL_NAME = /^[A-Za-z_*][\w.*-]*$/;
+
+// Shell operators that chain or substitute commands, or redirect their
+// input and output (which also covers <(...) and >(...))
+const SHELL_CONTROL = /[;&|`<>\n\r]|\$\(/;
+
+/** Parse an `allowed-tools` value into typed entries.
+ *
+ * Entries are separated by whitespace (commas are also accepted). Each is
+ * a tool name, optionally followed by an argument pattern in parentheses,
+ * which may itself contain spaces: `Bash(git log:*) Read Write(docs/**)`.
+ * Malformed entries are reported and left out of the result.
+ *
+ * @param value - The raw field value
+ * @returns Parsed entries plus diagnostics for malformed entries
+ *
+ * @example
+ * ```ts
+ * parseAllowedTools("Bash(git:*) Read").entries;
+ * // [{ tool: "Bash", pattern: "git:*", ... }, { tool: "Read", ... }]
+ * ```
+ */
+export function parseAllowedTools(value: string): ParsedAllowedTools {
+  const entries: AllowedTool[] = [];
+  const diagnostics: Diagnostic[] = [];
+  const seen = new Set<string>();
+
+  const problem = (
+    code: string,
+    severity: Diagnostic["severity"],
+    message: string,
+  ) => diagnostics.push({ code, severity, field: "allowed-tools", message });
+
+  let i = 0;
+  while (i < value.length) {
+    if (/[\s,]/.test(value[i]!)) {
+      i += 1;
+      continue;
+    }
+
+    // Scan one entry: up to a separator outside parentheses
+    const start = i;
+    let depth = 0;
+    let open = -1;
+    let close = -1;
+    while (i < value.length && (depth > 0 || !/[\s,]/.test(value[i]!))) {
+      if (value[i] === "(") {
+        if (depth === 0 && open === -1) {
+          open = i;
+        }
+        depth += 1;
+      } else if (value[i] === ")") {
+        depth -= 1;
+        if (depth < 0) {
+          break;
+        }
+        if (depth === 0 && close === -1) {
+          close = i;
+        }
+      }
+      i += 1;
+    }
+    if (depth < 0) {
+      // Stray ")": skip to the next separator
+      while (i < value.length && !/[\s,]/.test(value[i]!)) {
+        i += 1;
+      }
+    }
+    const raw = value.slice(start, i);
+
+    if (depth !== 0) {
+      problem(
+        "allowed-tools-unbalanced-parens",
+        "error",
+        `Unbalanced parentheses in allowed-tools entry '${raw}'`,
+      );
+      continue;
+    }
+
+    const tool = open === -1 ? raw : value.slice(start, open);
+    if (open !== -1 && close !== i - 1) {
+      problem(
+        "allowed-tools-trailing-text",
+        "error",
+        `Unexpected text after ')' in allowed-tools entry '${raw}'`,
+      );
+      continue;
+    }
+    if (!TOOL_NAME.test(tool)) {
+      problem(
+        "allowed-tools-invalid-name",
+        "error",
+        `Invalid tool name '${tool}' in allowed-tools entry '${raw}'`,
+      );
+      continue;
+    }
+
+    const pattern = open === -1 ? undefined : value.slice(open + 1, close);
+    if (pattern !== undefined && !pattern.trim()) {
+      problem(
+        "allowed-tools-empty-pattern",
+        "warning",
+        `Empty argument pattern in allowed-tools entry '${raw}'; use '${tool}' to allow any arguments`,
+      );
+    }
+    if (seen.has(raw)) {
+      problem(
+        "allowed-tools-duplicate",
+        "warning",
+        `Duplicate allowed-tools entry '${raw}'`,
+      );
+      continue;
+    }
+    seen.add(raw);
+
+    entries.push({ tool, pattern, raw, column: start + 1 });
+  }
+
+  return { entries, diagnostics };
+}
+
+/** Check whether a tool call is pre-approved by `allowed-tools` entries.
+ *
+ * Tool names match exactly or by glob (`*` for any run of characters).
+ * An entry without a pattern allows any arguments. Otherwise the
+ * arguments must match the pattern, where `*` matches any run of
+ * characters (including spaces and `/`) and `?` a single character. The
+ * `prefix:*` form allows the argument string `prefix` or anything
+ * starting with `prefix` and a space, so `Bash(git:*)` allows `git` and
+ * `git status` but not `gitk`.
+ *
+ * Arguments containing shell control operators (`;`, `&`, `|`, a
+ * backtick, `$(`, `<`, `>` or a line break) never match a pattern, since
+ * they can chain commands or redirect output in ways the pattern does not
+ * cover: `Bash(git:*)` allows neither `git status && rm -rf ~` nor
+ * `git log > ~/.bashrc`. Split compound commands and check each part.
+ *
+ * @param entries - Parsed entries, or an `allowed-tools` string
+ * @param toolName - Name of the tool being invoked
+ * @param args - The invocation's argument string, e.g. a shell command
+ * @returns True if some entry allows the call
+ *
+ * @example
+ * ```ts
+ * isToolInvocationAllowed("Bash(git:*) Read", "Bash", "git status"); // true
+ * isToolInvocationAllowed("Bash(git:*) Read", "Bash", "rm -rf /"); // false
+ * ```
+ */
+export function isToolInvocationAllowed(
+  entries: AllowedTool[] | string,
+  toolName: string,
+  args?: string,
+): boolean {
+  const parsed =
+    typeof entries === "string" ? parseAllowedTools(entries).entries : entries;
+
+  return parsed.some((entry) => {
+    if (!wildcardToRegExp(entry.tool).test(toolName)) {
+      return false;
+    }
+    if (entry.pattern === undefined) {
+      return true;
+    }
+    if (args === undefined || SHELL_CONTROL.test(args)) {
+      return false;
+    }
+    const prefix = /^(.*):\*$/s.exec(entry.pattern);
+    if (prefix !== null) {
+      return args === prefix[1] || args.startsWith(`${prefix[1]} `);
+    }
+    return wildcardToRegExp(entry.pattern).test(args);
+  });
+}
+
+/** Check whether an `allowed-tools` entry grants what a policy rule describes.
+ *
+ * Rules use the `allowed-tools` syntax. A rule without a pattern, such as
+ * `Bash`, matches only unrestricted entries (`Bash` or `Bash(*)`). A rule
+ * with a pattern matches unrestricted entries too, plus entries whose
+ * pattern could allow an argument the rule's pattern matches: `Bash(*)`
+ * matches every Bash entry, and `Write(/*)` matches `Write(/etc/*)` and
+ * `Write(*.md)`.
+ *
+ * Wildcards on either side count, so the entry `*` falls under every
+ * rule and `W*(/etc/x)` under `Write(/*)`. A `prefix:*` pattern stands
+ * for `prefix` and `prefix *`.
+ *
+ * @param rule - The policy rule
+ * @param entry - An entry from a skill's `allowed-tools`
+ * @returns True if the entry falls under the rule
+ */
+export function matchesToolRule(
+  rule: AllowedTool,
+  entry: AllowedTool,
+): boolean {
+  if (!wildcardsOverlap(rule.tool, entry.tool)) {
+    return false;
+  }
+  if (entry.pattern === undefined || /^\*+$/.test(entry.pattern)) {
+    return true;
+  }
+  if (rule.pattern === undefined) {
+    return false;
+  }
+  const entryPatterns = argumentWildcards(entry.pattern);
+  return argumentWildcards(rule.pattern).some((r) =>
+    entryPatterns.some((e) => wildcardsOverlap(r, e)),
+  );
+}
+
+/** Expand a `prefix:*` argument pattern into plain wildcard patterns. */
+function argumentWildcards(pattern: string): string[] {
+  const prefix = /^(.*):\*$/s.exec(pattern);
+  return prefix === null ? [pattern] : [prefix[1]!, `${prefix[1]} *`];
+}
+
+/** Check whether some string matches both wildcard patterns.
+ *
+ * `*` matches any run of characters and `?` a single character, as in
+ * wildcardToRegExp().
+ */
+function wildcardsOverlap(a: string, b: string): boolean {
+  const memo = new Map<number, boolean>();
+  const overlap = (i: number, j: number): boolean => {
+    const key = i * (b.length + 1) + j;
+    const cached = memo.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    let result = i === a.length && j === b.length;
+    if (!result && a[i] === "*") {
+      // The star matches nothing, or the next character b produces
+      result =
+        overlap(i + 1, j) ||
+        (j < b.length && b[j] !== "*" && overlap(i, j + 1));
+    }
+    if (!result && b[j] === "*") {
+      result =
+        overlap(i, j + 1) ||
+        (i < a.length && a[i] !== "*" && overlap(i + 1, j));
+    }
+    if (
+      !result &&
+      i < a.length &&
+      j < b.length &&
+      a[i] !== "*" &&
+      b[j] !== "*" &&
+      (a[i] === b[j] || a[i] === "?" || b[j] === "?")
+    ) {
+      result = overlap(i + 1, j + 1);
+    }
+    memo.set(key, result);
+    return result;
+  };
+  return overlap(0, 0);
+}
+
+/** Convert a pattern with `*` and `?` wildcards to an anchored regex. */
+function wildcardToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((c) =>
+      c === "*"
+        ? ".*"
+        : c === "?"
+          ? "."
+          : c.replace(/[.+^${}()|[\]\\]/, "\\$&"),
+    )
+    .join("");
+  return new RegExp(`^${source}$`, "s");
+}
@@ -0,0 +1,259 @@
+/** Organization policy checks on the tools skills pre-approve. */
+
+import * as yaml from "js-yaml";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+
+import { type Diagnostic, hasErrors } from "./diagnostics.js";
+import { ParseError, PolicyError } from "./errors.js";
+import { findSkillMd, parseSkillMd } from "./parser.js";
+import {
+  type AllowedTool,
+  matchesToolRule,
+  parseAllowedTools,
+} from "./permissions.js";
+import { type SkillValidationResult } from "./validator.js";
+
+/** Rules a skill's frontmatter must satisfy.
+ *
+ * Rules use the `allowed-tools` syntax and are matched with
+ * matchesToolRule(): `Bash` targets unrestricted Bash, `Bash(*)` any Bash
+ * entry, and `Write(/*)` writes to absolute paths.
+ *
+ * @example
+ * ```yaml
+ * deny: [Bash, "Write(/*)", "Write(../*)"]
+ * review: ["mcp__*", WebFetch]
+ * requireCompatibility: ["Bash(*)"]
+ * ```
+ */
+export interface ToolPolicy {
+  /** Entries skills may not pre-approve (reported as errors) */
+  deny?: string[];
+  /** Entries that need a security review (reported as warnings) */
+  review?: string[];
+  /** Require a `compatibility` field: always (true), or only for skills
+   *  pre-approving a tool matching one of these rules */
+  requireCompatibility?: boolean | string[];
+}
+
+/** Parse policy rules from YAML or JSON text.
+ *
+ * @param content - Policy file content
+ * @returns The policy
+ * @throws PolicyError If the content is not valid YAML or has the wrong shape
+ */
+export function parsePolicy(content: string): ToolPolicy {
+  let data: unknown;
+  try {
+    data = yaml.load(content);
+  } catch (e) {
+    throw new PolicyError(`Invalid YAML in policy: ${(e as Error).message}`);
+  }
+  if (data === undefined || data === null) {
+    return {};
+  }
+  if (typeof data !== "object" || Array.isArray(data)) {
+    throw new PolicyError("Policy must be a YAML mapping");
+  }
+
+  const policy: ToolPolicy = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (key === "deny" || key === "review") {
+      policy[key] = ruleList(key, value);
+    } else if (key === "requireCompatibility") {
+      policy.requireCompatibility =
+        typeof value === "boolean" ? value : ruleList(key, value);
+    } else {
+      throw new PolicyError(
+        `Unknown policy key '${key}'. Allowed: deny, requireCompatibility, review.`,
+      );
+    }
+  }
+  return policy;
+}
+
+/** Validate a list of rules from a policy file. */
+function ruleList(key: string, value: unknown): string[] {
+  if (
+    !Array.isArray(value) ||
+    !value.every((rule) => typeof rule === "string")
+  ) {
+    throw new PolicyError(`Policy key '${key}' must be a list of strings`);
+  }
+  for (const rule of value) {
+    const { diagnostics } = parseAllowedTools(rule);
+    if (hasErrors(diagnostics)) {
+      throw new PolicyError(
+        `Invalid rule '${rule}' in '${key}': ${diagnostics[0]!.message}`,
+      );
+    }
+  }
+  return value;
+}
+
+/** Read a policy file.
+ *
+ * @param policyFile - Path to a YAML or JSON policy file
+ * @returns The policy
+ * @throws PolicyError If the file cannot be read or is malformed
+ */
+export async function loadPolicy(policyFile: string): Promise<ToolPolicy> {
+  let content: string;
+  try {
+    content = await fs.readFile(policyFile, "utf-8");
+  } catch {
+    throw new PolicyError(`Cannot read policy file: ${policyFile}`);
+  }
+  return parsePolicy(content);
+}
+
+/** Check parsed frontmatter against a policy.
+ *
+ * @param metadata - Parsed YAML frontmatter dictionary
+ * @param policy - Rules to enforce
+ * @returns Diagnostics for denied tools, tools needing review, missing
+ *          compatibility disclosures and `allowed-tools` values that
+ *          cannot be parsed. The skill is compliant if none has error
+ *          severity (see hasErrors()).
+ */
+export function checkPolicy(
+  metadata: Record<string, unknown>,
+  policy: ToolPolicy,
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const allowedTools = metadata["allowed-tools"];
+  let entries: AllowedTool[] = [];
+  // A value the policy cannot read is a violation, not an empty list
+  if (typeof allowedTools === "string") {
+    const parsed = parseAllowedTools(allowedTools);
+    entries = parsed.entries;
+    for (const d of parsed.diagnostics) {
+      diagnostics.push(invalidAllowedTools(d.message));
+    }
+  } else if (allowedTools !== undefined && allowedTools !== null) {
+    diagnostics.push(
+      invalidAllowedTools("Field 'allowed-tools' must be a string"),
+    );
+  }
+
+  const violations = (rules: string[]) =>
+    entries.flatMap((entry) => {
+      const rule = rules.find((r) => matches(r, entry));
+      return rule === undefined ? [] : [{ entry, rule }];
+    });
+
+  const denied = violations(policy.deny ?? []);
+  for (const { entry, rule } of denied) {
+    diagnostics.push({
+      code: "policy-denied-tool",
+      severity: "error",
+      field: "allowed-tools",
+      message: `Pre-approving '${entry.raw}' is denied by policy rule '${rule}'`,
+    });
+  }
+  for (const { entry, rule } of violations(policy.review ?? [])) {
+    // Denied entries need no review
+    if (denied.some((violation) => violation.entry === entry)) {
+      continue;
+    }
+    diagnostics.push({
+      code: "policy-review-required",
+      severity: "warning",
+      field: "allowed-tools",
+      message: `Pre-approving '${entry.raw}' needs review under policy rule '${rule}'`,
+    });
+  }
+
+  const required = policy.requireCompatibility ?? false;
+  const compatibility = metadata.compatibility;
+  if (typeof compatibility !== "string" || !compatibility.trim()) {
+    if (required === true) {
+      diagnostics.push({
+        code: "policy-compatibility-required",
+        severity: "error",
+        field: "compatibility",
+        message: "Policy requires a 'compatibility' field",
+      });
+    } else if (required !== false) {
+      const [trigger] = violations(required);
+      if (trigger !== undefined) {
+        diagnostics.push({
+          code: "policy-compatibility-required",
+          severity: "error",
+          field: "compatibility",
+          message: `Policy requires a 'compatibility' field for skills pre-approving '${trigger.entry.raw}'`,
+        });
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
+/** Report an `allowed-tools` value the policy cannot check. */
+function invalidAllowedTools(problem: string): Diagnostic {
+  return {
+    code: "policy-invalid-allowed-tools",
+    severity: "error",
+    field: "allowed-tools",
+    message: `Cannot check 'allowed-tools' against policy: ${problem}`,
+  };
+}
+
+/** Check whether an entry falls under a policy rule string. */
+function matches(rule: string, entry: AllowedTool): boolean {
+  return parseAllowedTools(rule).entries.some((r) => matchesToolRule(r, entry));
+}
+
+/** Check a skill directory against a policy.
+ *
+ * @param skillDir - Path to the skill directory
+ * @param policy - Rules to enforce
+ * @returns Diagnostics located in SKILL.md, and whether the skill complies
+ */
+export async function checkSkillPolicy(
+  skillDir: string,
+  policy: ToolPolicy,
+): Promise<SkillValidationResult> {
+  const resolvedDir = path.resolve(skillDir);
+  const result = (diagnostics: Diagnostic[]): SkillValidationResult => ({
+    skillDir: resolvedDir,
+    diagnostics,
+    valid: !hasErrors(diagnostics),
+  });
+
+  const skillMd = await findSkillMd(resolvedDir);
+  if (skillMd === null) {
+    return result([
+      {
+        code: "skill-md-missing",
+        severity: "error",
+        message: "Missing required file: SKILL.md",
+      },
+    ]);
+  }
+
+  try {
+    const parsed = parseSkillMd(await fs.readFile(skillMd, "utf-8"));
+    return result(
+      checkPolicy(parsed.metadata, policy).map((d) => ({
+        ...d,
+        file: skillMd,
+        range:
+          (d.field !== undefined ? parsed.fieldRanges[d.field] : undefined) ??
+          parsed.frontmatterRange,
+      })),
+    );
+  } catch (e) {
+    return result([
+      {
+        code: e instanceof ParseError ? e.code : "parse-error",
+        severity: "error",
+        message: e instanceof Error ? e.message : String(e),
+        file: skillMd,
+        range: e instanceof ParseError ? e.range : undefined,
+      },
+    ]);
+  }
+}
@@ -1,18 +1,90 @@
-/** Generate <available_skills> XML prompt block for agent system prompts. */
+/** Render the available-skills block for agent system prompts. */
 
 import * as path from "node:path";
 
+import { SkillProperties } from "./models.js";
 import { findSkillMd, readProperties } from "./parser.js";
+import { estimateTokens, type Tokenizer } from "./tokens.js";
+
+/** Built-in prompt formats. */
+export const PROMPT_FORMATS = ["xml", "json", "markdown", "text"] as const;
+
+/** Built-in prompt format name. */
+export type PromptFormat = (typeof PROMPT_FORMATS)[number];
+
+/** Optional frontmatter fields that can be added to prompt entries. */
+export const PROMPT_FIELDS = [
+  "license",
+  "compatibility",
+  "allowed-tools",
+] as const;
+
+/** Optional frontmatter field name. */
+export type PromptField = (typeof PROMPT_FIELDS)[number];
+
+/** Options controlling how skills are rendered for a prompt. */
+export interface PromptOptions {
+  /** Built-in format to use (default: "xml") */
+  format?: PromptFormat;
+  /** Custom template; overrides `format` (see renderTemplate) */
+  template?: string;
+  /** Whether to emit each skill's SKILL.md location (default: true) */
+  includeLocation?: boolean;
+  /** Optional fields to emit when a skill sets them (default: none) */
+  fields?: PromptField[];
+  /** Size limit for the rendered prompt (default: unlimited) */
+  budget?: PromptBudget;
+}
+
+/** Order in which skills are kept when the prompt is over budget.
+ *
+ * - `"alphabetical"`: by name; skills late in the alphabet go first
+ * - `{ names }`: listed skills in the given order, then the rest by name
+ * - `{ metadataKey }`: by the numeric metadata value, lowest first
+ *   (e.g. `priority: "1"`), then skills without it by name
+ */
+export type PromptPriority =
+  | "alphabetical"
+  | { names: string[] }
+  | { metadataKey: string };
+
+/** Size limit for a rendered prompt. */
+export interface PromptBudget {
+  /** Maximum estimated tokens for the whole prompt */
+  maxTokens?: number;
+  /** Maximum characters for the whole prompt */
+  maxChars?: number;
+  /** Token counter used for maxTokens (default: estimateTokens heuristic) */
+  tokenizer?: Tokenizer;
+  /** Which skills to keep when some must be dropped (default: alphabetical) */
+  priority?: PromptPriority;
+  /** Shorten descriptions before dropping skills (default: true) */
+  truncateDescriptions?: boolean;
+  /** Descriptions are never shortened below this length (default: 80) */
+  minDescriptionLength?: number;
+}
+
+/** A rendered prompt and what was left out to fit its budget. */
+export interface PromptResult {
+  /** The rendered prompt */
+  prompt: string;
+  /** Names of skills dropped to fit the budget, lowest priority last */
+  omitted: string[];
+  /** Names of skills whose descriptions were shortened */
+  truncated: string[];
+}
 
 /** Generate the <available_skills> XML block for inclusion in agent prompts.
  *
- * This XML format is what Anthropic uses and recommends for Claude models.
- * Skill Clients may format skill information differently to suit their
- * models or preferences.
+ * The default XML format is what Anthropic uses and recommends for Claude
+ * models. Skill Clients may format skill information differently to suit
+ * their models or preferences, by picking another built-in format or
+ * passing their own template.
  *
  * @param skillDirs - List of paths to skill directories
- * @returns XML string with <available_skills> block containing each skill's
- *          name, description, and location.
+ * @param options - Output format, template and fields to include
+ * @returns By default, XML string with <available_skills> block containing
+ *          each skill's name, description, and location.
  *
  * @example
  * ```ts
@@ -27,36 +99,441 @@ import { findSkillMd, readProperties } from "./parser.js";
  * // </available_skills>
  * ```
  */
-export async function toPrompt(skillDirs: string[]): Promise<string> {
-  if (skillDirs.length === 0) {
-    return "<available_skills>\n</available_skills>";
-  }
+export async function toPrompt(
+  skillDirs: string[],
+  options: PromptOptions = {},
+): Promise<string> {
+  return formatPrompt(await loadPromptSkills(skillDirs), options);
+}
 
-  const lines: string[] = ["<available_skills>"];
+/** Read the properties and SKILL.md location of each skill.
+ *
+ * @param skillDirs - List of paths to skill directories
+ * @returns Skills ready for formatPrompt() or renderPrompt()
+ * @throws ParseError If a SKILL.md is missing or has invalid YAML
+ * @throws ValidationError If required fields (name, description) are missing
+ */
+export async function loadPromptSkills(
+  skillDirs: string[],
+): Promise<PromptSkill[]> {
+  const skills: PromptSkill[] = [];
 
   for (const skillDir of skillDirs) {
     const resolvedDir = path.resolve(skillDir);
-    const props = await readProperties(resolvedDir);
-
-    lines.push("<skill>");
-    lines.push("<name>");
-    lines.push(escapeHtml(props.name));
-    lines.push("</name>");
-    lines.push("<description>");
-    lines.push(escapeHtml(props.description));
-    lines.push("</description>");
-
-    const skillMdPath = await findSkillMd(resolvedDir);
-    lines.push("<location>");
-    lines.push(skillMdPath ?? "");
-    lines.push("</location>");
-
-    lines.push("</skill>");
+    const properties = await readProperties(resolvedDir);
+    const location = (await findSkillMd(resolvedDir)) ?? "";
+    skills.push({ properties, location });
+  }
+
+  return skills;
+}
+
+/** A skill's properties and SKILL.md location, as needed for the prompt. */
+export interface PromptSkill {
+  properties: SkillProperties;
+  location: string;
+}
+
+/** Format already-loaded skills for a prompt.
+ *
+ * Same output as toPrompt(), for callers that already hold parsed
+ * properties (for example a registry or watcher). Use renderPrompt() to
+ * also learn which skills a budget left out.
+ *
+ * @param skills - Properties and location of each skill
+ * @param options - Output format, template, fields and budget
+ * @returns The rendered block (XML <available_skills> by default)
+ */
+export function formatPrompt(
+  skills: PromptSkill[],
+  options: PromptOptions = {},
+): string {
+  return renderPrompt(skills, options).prompt;
+}
+
+/** Render skills for a prompt, keeping within the configured budget.
+ *
+ * When the full prompt is over budget, descriptions are first shortened
+ * (at word boundaries, down to `minDescriptionLength`). If that is not
+ * enough, the lowest-priority skills are dropped and the remaining
+ * descriptions are shortened as little as possible. Kept skills stay in
+ * their input order. A budget too small for even an empty block yields
+ * that empty block with every skill omitted.
+ *
+ * @param skills - Properties and location of each skill
+ * @param options - Output format, template, fields and budget
+ * @returns The prompt plus the names of omitted and shortened skills
+ *
+ * @example
+ * ```ts
+ * const { prompt, omitted } = renderPrompt(skills, {
+ *   budget: { maxTokens: 2000, priority: { metadataKey: "priority" } },
+ * });
+ * if (omitted.length > 0) {
+ *   console.warn(`Left out: ${omitted.join(", ")}`);
+ * }
+ * ```
+ */
+export function renderPrompt(
+  skills: PromptSkill[],
+  options: PromptOptions = {},
+): PromptResult {
+  const budget = options.budget;
+  const full = renderSkills(skills, [], options);
+  if (budget === undefined || fitsBudget(full, budget)) {
+    return { prompt: full, omitted: [], truncated: [] };
+  }
+
+  const ranked = rankSkills(skills, budget.priority ?? "alphabetical");
+  const truncate = budget.truncateDescriptions ?? true;
+  const minLength = budget.minDescriptionLength ?? 80;
+
+  // Render the `count` highest-priority skills, descriptions capped at `limit`
+  const attempt = (count: number, limit: number): PromptResult => {
+    const kept = new Set(ranked.slice(0, count));
+    const omitted = ranked.slice(count).map((s) => s.properties.name);
+    const truncated: string[] = [];
+    const shown = skills
+      .filter((skill) => kept.has(skill))
+      .map((skill) => {
+        const description = truncateText(skill.properties.description, limit);
+        if (description === skill.properties.description) {
+          return skill;
+        }
+        truncated.push(skill.properties.name);
+        return { ...skill, properties: withDescription(skill, description) };
+      });
+    return {
+      prompt: renderSkills(shown, omitted, options),
+      omitted,
+      truncated,
+    };
+  };
+
+  const longest = Math.max(
+    0,
+    ...skills.map((skill) => skill.properties.description.length),
+  );
+  const shortest = truncate ? Math.min(minLength, longest) : longest;
+
+  // Most skills that fit with descriptions at their shortest allowed length
+  let low = 0;
+  let high = skills.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (fitsBudget(attempt(mid, shortest).prompt, budget)) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  const count = low;
+
+  // Longest description limit that still fits with that many skills
+  let lowLimit = shortest;
+  let highLimit = longest;
+  while (lowLimit < highLimit) {
+    const mid = Math.ceil((lowLimit + highLimit) / 2);
+    if (fitsBudget(attempt(count, mid).prompt, budget)) {
+      lowLimit = mid;
+    } else {
+      highLimit = mid - 1;
+    }
   }
+  return attempt(count, lowLimit);
+}
+
+/** Check whether rendered text is within the budget. */
+function fitsBudget(text: string, budget: PromptBudget): boolean {
+  if (budget.maxChars !== undefined && text.length > budget.maxChars) {
+    return false;
+  }
+  if (budget.maxTokens !== undefined) {
+    const tokenizer = budget.tokenizer ?? estimateTokens;
+    return tokenizer(text) <= budget.maxTokens;
+  }
+  return true;
+}
+
+/** Sort skills from highest to lowest priority. */
+function rankSkills(
+  skills: PromptSkill[],
+  priority: PromptPriority,
+): PromptSkill[] {
+  const byName = (a: PromptSkill, b: PromptSkill) =>
+    a.properties.name.localeCompare(b.properties.name);
+
+  let rank: (skill: PromptSkill) => number;
+  if (priority === "alphabetical") {
+    rank = () => 0;
+  } else if ("names" in priority) {
+    rank = (skill) => {
+      const index = priority.names.indexOf(skill.properties.name);
+      return index === -1 ? Infinity : index;
+    };
+  } else {
+    rank = (skill) => {
+      const value = parseFloat(
+        skill.properties.metadata[priority.metadataKey]!,
+      );
+      return Number.isNaN(value) ? Infinity : value;
+    };
+  }
+
+  return [...skills].sort((a, b) => {
+    const ra = rank(a);
+    const rb = rank(b);
+    return ra === rb ? byName(a, b) : ra < rb ? -1 : 1;
+  });
+}
+
+/** Shorten text to at most `limit` characters, ending at a word boundary. */
+function truncateText(text: string, limit: number): string {
+  if (text.length <= limit) {
+    return text;
+  }
+  const cut = text.slice(0, Math.max(limit - 1, 0));
+  const space = cut.search(/\s\S*$/);
+  const words = space > limit / 2 ? cut.slice(0, space) : cut;
+  return `${words.trimEnd()}\u2026`;
+}
+
+/** Copy a skill's properties with a different description. */
+function withDescription(
+  skill: PromptSkill,
+  description: string,
+): SkillProperties {
+  const props = skill.properties;
+  return new SkillProperties(
+    props.name,
+    description,
+    props.license,
+    props.compatibility,
+    props.allowedTools,
+    props.metadata,
+    props.typedMetadata,
+  );
+}
+
+/** Render skills in the configured format or template. */
+function renderSkills(
+  skills: PromptSkill[],
+  omitted: string[],
+  options: PromptOptions,
+): string {
+  if (options.template !== undefined) {
+    return renderTemplate(options.template, {
+      skills: skills.map((skill) =>
+        Object.fromEntries(
+          promptFields(skill.properties, skill.location, options),
+        ),
+      ),
+      omitted,
+    });
+  }
+
+  switch (options.format ?? "xml") {
+    case "json":
+      return JSON.stringify(
+        {
+          skills: skills.map((skill) =>
+            Object.fromEntries(
+              promptFields(skill.properties, skill.location, options),
+            ),
+          ),
+        },
+        null,
+        2,
+      );
+    case "markdown":
+      return ["## Available skills", "", ...entries(skills, options)]
+        .join("\n")
+        .trimEnd();
+    case "text":
+      return entries(skills, options).join("\n");
+    case "xml":
+      return [
+        "<available_skills>",
+        ...entries(skills, options),
+        "</available_skills>",
+      ].join("\n");
+  }
+}
+
+/** Format each skill as an entry of a line-based format. */
+function entries(skills: PromptSkill[], options: PromptOptions): string[] {
+  return skills.map((skill) =>
+    formatPromptEntry(skill.properties, skill.location, options),
+  );
+}
+
+/** Format a single skill entry.
+ *
+ * For the default XML format this is the <skill> element; for markdown a
+ * list item, for text a single line and for json an object.
+ *
+ * @param props - Properties of the skill
+ * @param location - Path to the skill's SKILL.md file
+ * @param options - Output format and fields to include (template is ignored)
+ * @returns The entry as it appears in formatPrompt output
+ */
+export function formatPromptEntry(
+  props: SkillProperties,
+  location: string,
+  options: PromptOptions = {},
+): string {
+  const fields = promptFields(props, location, options);
+
+  switch (options.format ?? "xml") {
+    case "json":
+      return JSON.stringify(Object.fromEntries(fields), null, 2);
+    case "markdown": {
+      const lines = [`- **${props.name}**: ${props.description}`];
+      for (const [key, value] of fields.slice(2)) {
+        const label = key.charAt(0).toUpperCase() + key.slice(1);
+        lines.push(
+          key === "location"
+            ? `  - ${label}: \`${value}\``
+            : `  - ${label}: ${value}`,
+        );
+      }
+      return lines.join("\n");
+    }
+    case "text": {
+      const extra = fields
+        .slice(2)
+        .map(([key, value]) => `${key}: ${value}`)
+        .join("; ");
+      const line = `${props.name}: ${props.description.replace(/\s+/g, " ")}`;
+      return extra ? `${line} (${extra})` : line;
+    }
+    case "xml": {
+      const lines = ["<skill>"];
+      for (const [key, value] of fields) {
+        // Locations are paths and were never escaped
+        const text = key === "location" ? value : escapeHtml(value);
+        lines.push(`<${key}>`, text, `</${key}>`);
+      }
+      lines.push("</skill>");
+      return lines.join("\n");
+    }
+  }
+}
+
+/** Collect the fields of a prompt entry in output order. */
+function promptFields(
+  props: SkillProperties,
+  location: string,
+  options: PromptOptions,
+): [string, string][] {
+  const fields: [string, string][] = [
+    ["name", props.name],
+    ["description", props.description],
+  ];
+  const values: Record<PromptField, string | undefined> = {
+    license: props.license,
+    compatibility: props.compatibility,
+    "allowed-tools": props.allowedTools,
+  };
+  for (const field of PROMPT_FIELDS) {
+    const value = values[field];
+    if (options.fields?.includes(field) && value !== undefined) {
+      fields.push([field, value]);
+    }
+  }
+  if (options.includeLocation ?? true) {
+    fields.push(["location", location]);
+  }
+  return fields;
+}
+
+/** Render a Mustache-style template.
+ *
+ * Supports `{{key}}` substitution (values are inserted as-is, without
+ * escaping), `{{#key}}...{{/key}}` sections that repeat for each item of a
+ * list or render once when the value is set, and `{{^key}}...{{/key}}`
+ * sections that render when the value is unset or an empty list. Inside a
+ * list section, keys resolve against the item first, then the outer
+ * context. Prompt templates receive `skills`, a list of entries with
+ * `name`, `description`, `location` and any requested optional fields,
+ * and `omitted`, the names of skills left out to fit the budget.
+ *
+ * @param template - Template text
+ * @param context - Values available to the template
+ * @returns The rendered text
+ *
+ * @example
+ * ```ts
+ * renderTemplate("{{#skills}}- {{name}}\n{{/skills}}", {
+ *   skills: [{ name: "pdf" }, { name: "git" }],
+ * });
+ * // "- pdf\n- git\n"
+ * ```
+ */
+export function renderTemplate(
+  template: string,
+  context: Record<string, unknown>,
+): string {
+  return renderIn(template, [context]);
+}
+
+// A {{#key}}...{{/key}} or {{^key}}...{{/key}} section, or a {{key}} variable
+const TEMPLATE_TAG =
+  /\{\{([#^])\s*([\w.-]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}|\{\{\s*([\w.-]+)\s*\}\}/g;
 
-  lines.push("</available_skills>");
+/** Render a template against a stack of contexts (innermost last). */
+function renderIn(template: string, stack: Record<string, unknown>[]): string {
+  const lookup = (key: string): unknown => {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      if (key in stack[i]!) {
+        return stack[i]![key];
+      }
+    }
+    return undefined;
+  };
 
-  return lines.join("\n");
+  // One pass, so substituted values are never expanded again
+  return template.replace(
+    TEMPLATE_TAG,
+    (
+      _match,
+      kind: string | undefined,
+      key: string | undefined,
+      inner: string | undefined,
+      variable: string | undefined,
+    ) => {
+      if (kind === undefined || key === undefined || inner === undefined) {
+        const value = lookup(variable!);
+        return value === undefined || value === null ? "" : String(value);
+      }
+      const value = lookup(key);
+      const empty =
+        value === undefined ||
+        value === null ||
+        value === false ||
+        value === "" ||
+        (Array.isArray(value) && value.length === 0);
+      if (kind === "^") {
+        return empty ? renderIn(inner, stack) : "";
+      }
+      if (empty) {
+        return "";
+      }
+      if (Array.isArray(value)) {
+        return value
+          .map((item: unknown) =>
+            renderIn(
+              inner,
+              typeof item === "object" && item !== null
+                ? [...stack, item as Record<string, unknown>]
+                : [...stack, { ".": item }],
+            ),
+          )
+          .join("");
+      }
+      return renderIn(inner, stack);
+    },
+  );
 }
 
 /** Escape HTML special characters. */
@@ -0,0 +1,182 @@
+/** Checks for relative file references in the SKILL.md body. */
+
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+
+import { type Diagnostic, type SourceRange } from "./diagnostics.js";
+import { isWithin } from "./paths.js";
+
+/** A file path mentioned in Markdown text. */
+export interface FileReference {
+  /** The path as written, without any #fragment or ?query */
+  target: string;
+  /** Whether the path came from a Markdown link or a bare mention */
+  kind: "link" | "path";
+  /** 1-based line within the scanned text */
+  line: number;
+  /** 1-based column of the path within its line */
+  column: number;
+}
+
+// [text](target "title") and ![alt](target), target optionally in <...>
+const MARKDOWN_LINK = /!?\[[^\]]*\]\(\s*(<[^>]+>|[^)\s]+)[^)]*\)/g;
+// Bare mentions of files in the standard skill directories
+const BARE_PATH =
+  /(?<![\w./-])((?:\.\/)?(?:scripts|references|assets)\/[\w./-]*[\w/-])/g;
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+/** Find file paths referenced from Markdown text.
+ *
+ * Collects the targets of Markdown links and images, plus bare mentions
+ * of paths under scripts/, references/ and assets/ (for example
+ * `scripts/extract.py` in a command). URLs and in-page anchors are
+ * ignored.
+ *
+ * @param markdown - Markdown text to scan
+ * @returns References in the order they appear
+ */
+export function extractReferences(markdown: string): FileReference[] {
+  const references: FileReference[] = [];
+
+  markdown.split(/\r?\n/).forEach((text, index) => {
+    const line = index + 1;
+    let masked = text;
+
+    for (const match of text.matchAll(MARKDOWN_LINK)) {
+      let target = match[1]!;
+      let offset = match[0].indexOf(target, match[0].indexOf("]("));
+      if (target.startsWith("<")) {
+        target = target.slice(1, -1);
+        offset += 1;
+      }
+      // Keep bare-path matching from seeing the link target again
+      masked =
+        masked.slice(0, match.index) +
+        " ".repeat(match[0].length) +
+        masked.slice(match.index + match[0].length);
+
+      target = target.split(/[#?]/)[0]!;
+      if (!target || URL_SCHEME.test(target) || target.startsWith("//")) {
+        continue;
+      }
+      references.push({
+        target: safeDecode(target),
+        kind: "link",
+        line,
+        column: match.index + offset + 1,
+      });
+    }
+
+    for (const match of masked.matchAll(BARE_PATH)) {
+      references.push({
+        target: match[1]!,
+        kind: "path",
+        line,
+        column: match.index + 1,
+      });
+    }
+  });
+
+  return references;
+}
+
+/** Decode percent-escapes in a link target, leaving malformed ones as-is. */
+function safeDecode(target: string): string {
+  try {
+    return decodeURIComponent(target);
+  } catch {
+    return target;
+  }
+}
+
+/** Validate the file references in a skill body.
+ *
+ * Each referenced path is resolved against the skill root and checked
+ * for existence. Paths that escape the skill directory are errors.
+ * Referenced Markdown files that themselves reference further files are
+ * flagged, since the spec recommends keeping references one level deep
+ * from SKILL.md.
+ *
+ * @param skillDir - Path to the skill directory
+ * @param body - Markdown body of SKILL.md
+ * @param startLine - Line in SKILL.md on which the body starts
+ * @returns Diagnostics for missing, escaping, unreadable and chained
+ *          references
+ */
+export async function checkReferences(
+  skillDir: string,
+  body: string,
+  startLine: number,
+): Promise<Diagnostic[]> {
+  const root = path.resolve(skillDir);
+  const diagnostics: Diagnostic[] = [];
+  let realRoot: string | undefined;
+
+  for (const reference of extractReferences(body)) {
+    const line = startLine + reference.line - 1;
+    const range: SourceRange = {
+      start: { line, column: reference.column },
+      end: { line, column: reference.column + reference.target.length },
+    };
+    const resolved = path.resolve(root, reference.target);
+
+    if (path.isAbsolute(reference.target) || !isWithin(root, resolved)) {
+      diagnostics.push({
+        code: "reference-outside-skill",
+        severity: "error",
+        message: `Reference '${reference.target}' points outside the skill directory`,
+        range,
+      });
+      continue;
+    }
+
+    const stat = await fs.stat(resolved).catch(() => null);
+    if (stat === null) {
+      diagnostics.push({
+        code: "reference-missing",
+        severity: "error",
+        message: `Referenced file '${reference.target}' does not exist`,
+        range,
+      });
+      continue;
+    }
+
+    // A symlink inside the skill may still lead outside it
+    realRoot ??= await fs.realpath(root);
+    if (!isWithin(realRoot, await fs.realpath(resolved))) {
+      diagnostics.push({
+        code: "reference-outside-skill",
+        severity: "error",
+        message: `Reference '${reference.target}' resolves outside the skill directory`,
+        range,
+      });
+      continue;
+    }
+
+    if (stat.isFile() && resolved.toLowerCase().endsWith(".md")) {
+      const content = await fs.readFile(resolved, "utf-8").catch(() => null);
+      if (content === null) {
+        diagnostics.push({
+          code: "reference-unreadable",
+          severity: "error",
+          message: `Referenced file '${reference.target}' cannot be read`,
+          range,
+        });
+        continue;
+      }
+      const nested = extractReferences(content).filter(
+        (r) => r.kind === "link",
+      );
+      if (nested.length > 0) {
+        diagnostics.push({
+          code: "reference-chain-too-deep",
+          severity: "warning",
+          message: `Referenced file '${reference.target}' links to '${nested[0]!.target}'; keep file references one level deep from SKILL.md`,
+          range,
+        });
+      }
+    }
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,190 @@
+/** In-memory registry of skills from several prioritized sources. */
+
+import { type Diagnostic } from "./diagnostics.js";
+import { type DiscoverOptions, discoverSkills } from "./discovery.js";
+import { ParseError, SkillError } from "./errors.js";
+import { SkillProperties } from "./models.js";
+import { formatPrompt, type PromptOptions } from "./prompt.js";
+
+/** A directory of skills registered with a given precedence. */
+export interface SkillSource {
+  /** Directory scanned for skills */
+  path: string;
+  /** Label used in diagnostics, e.g. "project" or "user" (default: path) */
+  label?: string;
+  /** Discovery settings for this source */
+  discover?: DiscoverOptions;
+}
+
+/** A skill indexed by the registry. */
+export interface RegistryEntry {
+  /** Skill name from the frontmatter */
+  name: string;
+  /** Absolute path to the skill directory */
+  path: string;
+  /** Absolute path to the skill's SKILL.md file */
+  location: string;
+  /** Properties parsed from the SKILL.md frontmatter */
+  properties: SkillProperties;
+  /** Label of the source the skill was loaded from */
+  source: string;
+}
+
+/** Skills from ordered sources, indexed by name.
+ *
+ * Sources are listed from highest to lowest precedence. When two sources
+ * provide a skill with the same name, the one from the earlier source wins
+ * and the other is reported as shadowed. Two skills with the same name in
+ * one source are reported as duplicates; the first by path is kept.
+ *
+ * @example
+ * ```ts
+ * const registry = await new SkillRegistry([
+ *   { path: "./.skills", label: "project" },
+ *   { path: "/home/me/.skills", label: "user" },
+ * ]).load();
+ * console.log(registry.get("pdf-reader")?.source);
+ * ```
+ */
+export class SkillRegistry {
+  /** Sources in precedence order (highest first) */
+  readonly sources: SkillSource[];
+  private entries = new Map<string, RegistryEntry>();
+  private loadDiagnostics: Diagnostic[] = [];
+
+  constructor(sources: (string | SkillSource)[]) {
+    this.sources = sources.map((source) =>
+      typeof source === "string" ? { path: source } : source,
+    );
+  }
+
+  /** Findings from the last load: missing sources, parse errors, shadowing. */
+  get diagnostics(): Diagnostic[] {
+    return this.loadDiagnostics;
+  }
+
+  /** Scan all sources and rebuild the index.
+   *
+   * A source directory that does not exist or cannot be scanned is
+   * reported as a `source-unavailable` error and skipped; the other
+   * sources are still loaded.
+   *
+   * @returns This registry, for chaining
+   */
+  async load(): Promise<this> {
+    const entries = new Map<string, RegistryEntry>();
+    const diagnostics: Diagnostic[] = [];
+
+    for (const source of this.sources) {
+      const label = source.label ?? source.path;
+      // Name -> path of the first skill with that name in this source
+      const seen = new Map<string, string>();
+
+      let skills;
+      try {
+        skills = await discoverSkills([source.path], source.discover);
+      } catch (e) {
+        if (!(e instanceof SkillError)) throw e;
+        diagnostics.push({
+          code: "source-unavailable",
+          severity: "error",
+          message: `Skipping source ${label}: ${e.message}`,
+          file: source.path,
+        });
+        continue;
+      }
+
+      for (const skill of skills) {
+        if (!skill.properties) {
+          diagnostics.push({
+            code:
+              skill.error instanceof ParseError
+                ? skill.error.code
+                : "parse-error",
+            severity: "error",
+            message: skill.error?.message ?? "Failed to read skill",
+            file: skill.location,
+          });
+          continue;
+        }
+
+        const name = skill.properties.name;
+        const firstPath = seen.get(name);
+        if (firstPath !== undefined) {
+          diagnostics.push({
+            code: "duplicate-skill-name",
+            severity: "error",
+            field: "name",
+            message: `Skill '${name}' is defined more than once in ${label}: ${firstPath} and ${skill.path}`,
+            file: skill.location,
+          });
+          continue;
+        }
+        seen.set(name, skill.path);
+
+        const existing = entries.get(name);
+        if (existing) {
+          diagnostics.push({
+            code: "skill-shadowed",
+            severity: "warning",
+            field: "name",
+            message: `Skill '${name}' from ${label} is shadowed by ${existing.source} (${existing.path})`,
+            file: skill.location,
+          });
+          continue;
+        }
+
+        entries.set(name, {
+          name,
+          path: skill.path,
+          location: skill.location,
+          properties: skill.properties,
+          source: label,
+        });
+      }
+    }
+
+    this.entries = entries;
+    this.loadDiagnostics = diagnostics;
+    return this;
+  }
+
+  /** Look up a skill by name.
+   *
+   * @param name - Skill name
+   * @returns The winning entry for that name, or undefined
+   */
+  get(name: string): RegistryEntry | undefined {
+    return this.entries.get(name);
+  }
+
+  /** Check whether a skill with the given name is registered. */
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  /** List registered skills sorted by name.
+   *
+   * @param filter - Optional predicate to select entries
+   * @returns Matching entries
+   */
+  list(filter?: (entry: RegistryEntry) => boolean): RegistryEntry[] {
+    const entries = [...this.entries.values()].sort((a, b) =>
+      a.name.localeCompare(b.name),
+    );
+    return filter ? entries.filter(filter) : entries;
+  }
+
+  /** Generate the <available_skills> block for the registered skills.
+   *
+   * @param filter - Optional predicate to select entries
+   * @param options - Output format, template and fields to include
+   * @returns Prompt text as produced by toPrompt()
+   */
+  toPrompt(
+    filter?: (entry: RegistryEntry) => boolean,
+    options: PromptOptions = {},
+  ): string {
+    return formatPrompt(this.list(filter), options);
+  }
+}
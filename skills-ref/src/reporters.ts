@@ -0,0 +1,251 @@
+/** Output formats for validation results (text, JSON, SARIF and JUnit). */
+
+import * as path from "node:path";
+
+import {
+  type Diagnostic,
+  formatDiagnostic,
+  type Severity,
+} from "./diagnostics.js";
+import { type SkillValidationResult } from "./validator.js";
+import { version } from "./version.js";
+
+/** Supported report formats. */
+export const REPORT_FORMATS = ["text", "json", "sarif", "junit"] as const;
+
+/** Name of a supported report format. */
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+/** Aggregate counts across a set of validation results. */
+export interface ValidationSummary {
+  /** Number of skills validated */
+  total: number;
+  /** Number of skills without errors */
+  valid: number;
+  /** Number of skills with at least one error */
+  invalid: number;
+  /** Number of diagnostics per severity */
+  errors: number;
+  warnings: number;
+  infos: number;
+}
+
+/** Options for rendering a report. */
+export interface ReportOptions {
+  /** Directory that file paths in SARIF output are made relative to */
+  cwd?: string;
+}
+
+/** Summarize validation results.
+ *
+ * @param results - Results for each validated skill
+ * @returns Counts of valid/invalid skills and diagnostics by severity
+ */
+export function summarize(results: SkillValidationResult[]): ValidationSummary {
+  const diagnostics = results.flatMap((r) => r.diagnostics);
+  const count = (severity: Severity) =>
+    diagnostics.filter((d) => d.severity === severity).length;
+
+  const valid = results.filter((r) => r.valid).length;
+  return {
+    total: results.length,
+    valid,
+    invalid: results.length - valid,
+    errors: count("error"),
+    warnings: count("warning"),
+    infos: count("info"),
+  };
+}
+
+/** Render validation results in the requested format.
+ *
+ * @param results - Results for each validated skill
+ * @param format - Output format
+ * @param options - Rendering options
+ * @returns The formatted report
+ */
+export function formatReport(
+  results: SkillValidationResult[],
+  format: ReportFormat,
+  options: ReportOptions = {},
+): string {
+  switch (format) {
+    case "text":
+      return formatText(results);
+    case "json":
+      return formatJson(results);
+    case "sarif":
+      return formatSarif(results, options.cwd ?? process.cwd());
+    case "junit":
+      return formatJunit(results);
+  }
+}
+
+/** Human-readable report with one compiler-style line per diagnostic. */
+function formatText(results: SkillValidationResult[]): string {
+  const lines: string[] = [];
+  for (const result of results) {
+    if (result.valid && result.diagnostics.length === 0) {
+      lines.push(`Valid skill: ${result.skillDir}`);
+      continue;
+    }
+    lines.push(
+      result.valid
+        ? `Valid skill with warnings: ${result.skillDir}`
+        : `Validation failed for ${result.skillDir}:`,
+    );
+    for (const diagnostic of result.diagnostics) {
+      lines.push(formatDiagnostic(diagnostic));
+    }
+  }
+
+  if (results.length > 1) {
+    lines.push("", ...formatTable(results));
+  }
+  return lines.join("\n");
+}
+
+/** Per-skill pass/fail table followed by a totals line. */
+function formatTable(results: SkillValidationResult[]): string[] {
+  const rows = [
+    ["STATUS", "ERRORS", "WARNINGS", "SKILL"],
+    ...results.map((r) => [
+      r.valid ? "pass" : "fail",
+      String(r.diagnostics.filter((d) => d.severity === "error").length),
+      String(r.diagnostics.filter((d) => d.severity === "warning").length),
+      r.skillDir,
+    ]),
+  ];
+  const widths = rows[0]!.map((_, col) =>
+    Math.max(...rows.map((row) => row[col]!.length)),
+  );
+  const lines = rows.map((row) =>
+    row
+      .map((cell, col) =>
+        col < row.length - 1 ? cell.padEnd(widths[col]!) : cell,
+      )
+      .join("  "),
+  );
+
+  const summary = summarize(results);
+  lines.push(
+    "",
+    `Total: ${summary.total} skills, ${summary.valid} valid, ${summary.invalid} invalid ` +
+      `(${summary.errors} errors, ${summary.warnings} warnings)`,
+  );
+  return lines;
+}
+
+/** JSON report with a summary and every diagnostic. */
+function formatJson(results: SkillValidationResult[]): string {
+  return JSON.stringify({ summary: summarize(results), results }, null, 2);
+}
+
+const SARIF_LEVELS: Record<Severity, string> = {
+  error: "error",
+  warning: "warning",
+  info: "note",
+};
+
+/** SARIF 2.1.0 log for code-scanning dashboards. */
+function formatSarif(results: SkillValidationResult[], cwd: string): string {
+  const diagnostics = results.flatMap((r) =>
+    r.diagnostics.map((d) => ({ diagnostic: d, skillDir: r.skillDir })),
+  );
+  const ruleIds = [...new Set(diagnostics.map((d) => d.diagnostic.code))];
+
+  const sarifResults = diagnostics.map(({ diagnostic, skillDir }) => ({
+    ruleId: diagnostic.code,
+    ruleIndex: ruleIds.indexOf(diagnostic.code),
+    level: SARIF_LEVELS[diagnostic.severity],
+    message: { text: diagnostic.message },
+    locations: [sarifLocation(diagnostic, skillDir, cwd)],
+  }));
+
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "skills-ref",
+            version,
+            informationUri: "https://agentskills.io/specification",
+            rules: ruleIds.map((id) => ({ id })),
+          },
+        },
+        results: sarifResults,
+        properties: { summary: summarize(results) },
+      },
+    ],
+  };
+  return JSON.stringify(log, null, 2);
+}
+
+/** SARIF physical location for a diagnostic, relative to `cwd`. */
+function sarifLocation(diagnostic: Diagnostic, skillDir: string, cwd: string) {
+  const file = diagnostic.file ?? skillDir;
+  const uri = path.relative(cwd, path.resolve(file)).split(path.sep).join("/");
+  const range = diagnostic.range;
+  return {
+    physicalLocation: {
+      artifactLocation: { uri },
+      ...(range && {
+        region: {
+          startLine: range.start.line,
+          startColumn: range.start.column,
+          endLine: range.end.line,
+          endColumn: range.end.column,
+        },
+      }),
+    },
+  };
+}
+
+/** JUnit XML report with one test case per skill. */
+function formatJunit(results: SkillValidationResult[]): string {
+  const summary = summarize(results);
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="skills-ref" tests="${summary.total}" failures="${summary.invalid}">`,
+    `<testsuite name="skills-ref validate" tests="${summary.total}" failures="${summary.invalid}">`,
+  ];
+
+  for (const result of results) {
+    const errors = result.diagnostics.filter((d) => d.severity === "error");
+    const others = result.diagnostics.filter((d) => d.severity !== "error");
+
+    lines.push(
+      `<testcase name="${escapeXml(result.skillDir)}" classname="skills-ref.validate">`,
+    );
+    if (errors.length > 0) {
+      const message = `${errors.length} validation error(s)`;
+      lines.push(
+        `<failure message="${escapeXml(message)}" type="validation">${escapeXml(
+          errors.map(formatDiagnostic).join("\n"),
+        )}</failure>`,
+      );
+    }
+    if (others.length > 0) {
+      lines.push(
+        `<system-out>${escapeXml(others.map(formatDiagnostic).join("\n"))}</system-out>`,
+      );
+    }
+    lines.push("</testcase>");
+  }
+
+  lines.push("</testsuite>");
+  lines.push("</testsuites>");
+  return lines.join("\n");
+}
+
+/** Escape XML special characters. */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
@@ -0,0 +1,51 @@
+/** Bundled resource files in a skill's optional directories. */
+
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+
+/** Optional skill directories that hold bundled resources. */
+export const RESOURCE_DIRS = ["scripts", "references", "assets"];
+
+/** List the resource files bundled with a skill.
+ *
+ * Walks scripts/, references/ and assets/ recursively. Symlinks are not
+ * followed, including a resource directory that is itself a symlink.
+ *
+ * @param skillDir - Path to the skill directory
+ * @returns Paths relative to the skill root using `/` separators, sorted
+ */
+export async function listResourceFiles(skillDir: string): Promise<string[]> {
+  const files: string[] = [];
+
+  async function walk(relDir: string) {
+    const entries = await fs
+      .readdir(path.join(skillDir, relDir), { withFileTypes: true })
+      .catch(() => []);
+    for (const entry of entries) {
+      const relPath = `${relDir}/${entry.name}`;
+      if (entry.isDirectory()) {
+        await walk(relPath);
+      } else if (entry.isFile()) {
+        files.push(relPath);
+      }
+    }
+  }
+
+  for (const dir of RESOURCE_DIRS) {
+    // readdir would follow a symlinked directory, so check it first
+    const stat = await fs.lstat(path.join(skillDir, dir)).catch(() => null);
+    if (stat?.isDirectory()) {
+      await walk(dir);
+    }
+  }
+  return files.sort();
+}
+
+/** Check whether file content looks binary (contains a NUL byte).
+ *
+ * @param content - File content, or its first few kilobytes
+ * @returns True if the content should not be treated as text
+ */
+export function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
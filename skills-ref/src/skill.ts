@@ -0,0 +1,136 @@
+/** Progressive-disclosure loading of a single skill. */
+
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+
+import { ParseError, ResourceError } from "./errors.js";
+import { SkillProperties } from "./models.js";
+import { findSkillMd, parseFrontmatter, readProperties } from "./parser.js";
+import { isWithin } from "./paths.js";
+import { listResourceFiles } from "./resources.js";
+
+/** A loaded skill with lazy access to its instructions and resources.
+ *
+ * Models the three disclosure tiers from the spec: `properties` (metadata)
+ * is available immediately, the instructions body is read on first use,
+ * and bundled resources are read individually when requested. Each is
+ * cached once loaded; failed reads are not cached, so they are retried.
+ */
+export class Skill {
+  /** Absolute path to the skill directory */
+  readonly path: string;
+  /** Absolute path to the skill's SKILL.md file */
+  readonly location: string;
+  /** Properties parsed from the SKILL.md frontmatter */
+  readonly properties: SkillProperties;
+
+  private instructions?: Promise<string>;
+  private resources?: Promise<string[]>;
+  private readonly resourceCache = new Map<string, Promise<Buffer>>();
+
+  constructor(skillDir: string, location: string, properties: SkillProperties) {
+    this.path = skillDir;
+    this.location = location;
+    this.properties = properties;
+  }
+
+  /** Skill name, shorthand for `properties.name`. */
+  get name(): string {
+    return this.properties.name;
+  }
+
+  /** Load the Markdown body of SKILL.md (the activation tier).
+   *
+   * @returns Instructions body with surrounding whitespace trimmed
+   */
+  getInstructions(): Promise<string> {
+    this.instructions ??= fs
+      .readFile(this.location, "utf-8")
+      .then((content) => parseFrontmatter(content)[1])
+      .catch((e: unknown) => {
+        this.instructions = undefined;
+        throw e;
+      });
+    return this.instructions;
+  }
+
+  /** List files bundled in scripts/, references/ and assets/.
+   *
+   * @returns Paths relative to the skill root using `/` separators
+   */
+  listResources(): Promise<string[]> {
+    this.resources ??= listResourceFiles(this.path).catch((e: unknown) => {
+      this.resources = undefined;
+      throw e;
+    });
+    return this.resources;
+  }
+
+  /** Read a bundled resource file.
+   *
+   * Only files returned by listResources() can be read. The path is also
+   * resolved when read and rejected if it leads outside the skill, so a
+   * file replaced by a symlink after listing is not followed out of it.
+   *
+   * @param relPath - Path relative to the skill root, e.g. `references/REFERENCE.md`
+   * @param encoding - Encoding for the returned string (default: utf-8)
+   * @returns File content
+   * @throws ResourceError If the path is not a bundled resource or resolves
+   *         outside the skill directory
+   */
+  async readResource(
+    relPath: string,
+    encoding: BufferEncoding = "utf-8",
+  ): Promise<string> {
+    const normalized = path.posix.normalize(relPath.replace(/\\/g, "/"));
+    if (!(await this.listResources()).includes(normalized)) {
+      throw new ResourceError(
+        `Resource '${relPath}' not found in skill '${this.name}'`,
+      );
+    }
+
+    let content = this.resourceCache.get(normalized);
+    if (content === undefined) {
+      content = this.readContained(normalized).catch((e: unknown) => {
+        this.resourceCache.delete(normalized);
+        throw e;
+      });
+      this.resourceCache.set(normalized, content);
+    }
+    return (await content).toString(encoding);
+  }
+
+  /** Read a file after checking that its real path is inside the skill. */
+  private async readContained(relPath: string): Promise<Buffer> {
+    const [realRoot, realTarget] = await Promise.all([
+      fs.realpath(this.path),
+      fs.realpath(path.join(this.path, relPath)),
+    ]);
+    if (!isWithin(realRoot, realTarget)) {
+      throw new ResourceError(
+        `Resource '${relPath}' resolves outside skill '${this.name}'`,
+      );
+    }
+    return fs.readFile(realTarget);
+  }
+}
+
+/** Load a skill for progressive disclosure.
+ *
+ * Reads only the frontmatter up front; the body and resources are loaded
+ * when first requested.
+ *
+ * @param skillDir - Path to the skill directory
+ * @returns Skill with its properties loaded
+ * @throws ParseError If SKILL.md is missing or has invalid YAML
+ * @throws ValidationError If required fields (name, description) are missing
+ */
+export async function loadSkill(skillDir: string): Promise<Skill> {
+  const resolvedDir = path.resolve(skillDir);
+  const properties = await readProperties(resolvedDir);
+  const location = await findSkillMd(resolvedDir);
+  if (location === null) {
+    throw new ParseError(`SKILL.md not found in ${resolvedDir}`);
+  }
+  return new Skill(resolvedDir, location, properties);
+}
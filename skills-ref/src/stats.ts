@@ -0,0 +1,205 @@
+/** Token and size statistics for each progressive-disclosure level. */
+
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+
+import { ParseError } from "./errors.js";
+import { findSkillMd, parseFrontmatter, readProperties } from "./parser.js";
+import { formatPromptEntry } from "./prompt.js";
+import { isBinary, listResourceFiles } from "./resources.js";
+import { estimateTokens, type Tokenizer } from "./tokens.js";
+
+/** Size of a single piece of skill content. */
+export interface ContentStats {
+  /** Number of characters (bytes for binary files) */
+  chars: number;
+  /** Estimated number of tokens (0 for binary files) */
+  tokens: number;
+}
+
+/** Size of a bundled resource file. */
+export interface ResourceStats extends ContentStats {
+  /** Path relative to the skill root, using `/` separators */
+  path: string;
+  /** Whether the file is binary and would not be loaded as text */
+  binary: boolean;
+}
+
+/** Context cost of a skill at each disclosure level. */
+export interface SkillStats {
+  /** Skill name from the frontmatter */
+  name: string;
+  /** Absolute path to the skill directory */
+  path: string;
+  /** The <skill> entry toPrompt emits for this skill (always loaded) */
+  metadata: ContentStats;
+  /** The SKILL.md body (loaded on activation) */
+  body: ContentStats & { lines: number };
+  /** Files under scripts/, references/ and assets/ (loaded on demand) */
+  resources: ResourceStats[];
+  /** Estimated tokens if every level were loaded */
+  totalTokens: number;
+}
+
+/** Totals across many skills. */
+export interface AggregateStats {
+  /** Number of skills */
+  skills: number;
+  /** Estimated tokens for all metadata entries together */
+  metadataTokens: number;
+  /** Estimated tokens for all bodies together */
+  bodyTokens: number;
+  /** Estimated tokens for all text resources together */
+  resourceTokens: number;
+  /** Sum of the above */
+  totalTokens: number;
+}
+
+/** Options for computing statistics. */
+export interface StatsOptions {
+  /** Token counter to use (default: estimateTokens heuristic) */
+  tokenizer?: Tokenizer;
+}
+
+/** Compute token and size statistics for a skill.
+ *
+ * @param skillDir - Path to the skill directory
+ * @param options - Tokenizer to use
+ * @returns Statistics for the metadata entry, body and each resource
+ * @throws ParseError If SKILL.md is missing or has invalid YAML
+ * @throws ValidationError If required fields (name, description) are missing
+ */
+export async function getSkillStats(
+  skillDir: string,
+  options: StatsOptions = {},
+): Promise<SkillStats> {
+  const tokenizer = options.tokenizer ?? estimateTokens;
+  const resolvedDir = path.resolve(skillDir);
+  const measure = (text: string): ContentStats => ({
+    chars: text.length,
+    tokens: tokenizer(text),
+  });
+
+  const props = await readProperties(resolvedDir);
+  const skillMd = await findSkillMd(resolvedDir);
+  if (skillMd === null) {
+    throw new ParseError(`SKILL.md not found in ${resolvedDir}`);
+  }
+  const [, body] = parseFrontmatter(await fs.readFile(skillMd, "utf-8"));
+
+  const resources: ResourceStats[] = [];
+  for (const relPath of await listResourceFiles(resolvedDir)) {
+    const content = await fs.readFile(path.join(resolvedDir, relPath));
+    if (isBinary(content)) {
+      resources.push({
+        path: relPath,
+        binary: true,
+        chars: content.length,
+        tokens: 0,
+      });
+    } else {
+      resources.push({
+        path: relPath,
+        binary: false,
+        ...measure(content.toString("utf-8")),
+      });
+    }
+  }
+
+  const metadata = measure(formatPromptEntry(props, skillMd));
+  const bodyStats = {
+    ...measure(body),
+    lines: body ? body.split("\n").length : 0,
+  };
+  return {
+    name: props.name,
+    path: resolvedDir,
+    metadata,
+    body: bodyStats,
+    resources,
+    totalTokens:
+      metadata.tokens +
+      bodyStats.tokens +
+      resources.reduce((sum, r) => sum + r.tokens, 0),
+  };
+}
+
+/** Add up statistics across skills.
+ *
+ * @param stats - Statistics for each skill
+ * @returns Token totals per disclosure level
+ */
+export function aggregateStats(stats: SkillStats[]): AggregateStats {
+  const sum = (pick: (s: SkillStats) => number) =>
+    stats.reduce((total, s) => total + pick(s), 0);
+
+  const metadataTokens = sum((s) => s.metadata.tokens);
+  const bodyTokens = sum((s) => s.body.tokens);
+  const resourceTokens = sum((s) =>
+    s.resources.reduce((total, r) => total + r.tokens, 0),
+  );
+  return {
+    skills: stats.length,
+    metadataTokens,
+    bodyTokens,
+    resourceTokens,
+    totalTokens: metadataTokens + bodyTokens + resourceTokens,
+  };
+}
+
+/** Render statistics as a plain-text table with a totals row.
+ *
+ * @param stats - Statistics for each skill
+ * @param showFiles - Whether to list each resource file under its skill
+ * @returns Table with metadata, body, resource and total token columns
+ */
+export function formatStats(stats: SkillStats[], showFiles = false): string {
+  const rows: string[][] = [
+    ["SKILL", "METADATA", "BODY", "RESOURCES", "TOTAL"],
+  ];
+  for (const s of stats) {
+    const resourceTokens = s.resources.reduce((sum, r) => sum + r.tokens, 0);
+    rows.push([
+      s.name,
+      String(s.metadata.tokens),
+      String(s.body.tokens),
+      String(resourceTokens),
+      String(s.totalTokens),
+    ]);
+    if (showFiles) {
+      for (const r of s.resources) {
+        rows.push([
+          `  ${r.path}`,
+          "",
+          "",
+          r.binary ? "binary" : String(r.tokens),
+          "",
+        ]);
+      }
+    }
+  }
+  if (stats.length > 1) {
+    const total = aggregateStats(stats);
+    rows.push([
+      `TOTAL (${total.skills} skills)`,
+      String(total.metadataTokens),
+      String(total.bodyTokens),
+      String(total.resourceTokens),
+      String(total.totalTokens),
+    ]);
+  }
+
+  const widths = rows[0]!.map((_, col) =>
+    Math.max(...rows.map((row) => row[col]!.length)),
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, col) =>
+          col === 0 ? cell.padEnd(widths[col]!) : cell.padStart(widths[col]!),
+        )
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+}
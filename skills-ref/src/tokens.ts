@@ -0,0 +1,16 @@
+/** Token count estimation for context budgeting. */
+
+/** Counts tokens in text. Plug in a model-specific tokenizer if needed. */
+export type Tokenizer = (text: string) => number;
+
+/** Estimate the number of tokens in a piece of text.
+ *
+ * Uses a heuristic of roughly four characters per token, which is close
+ * for English prose and code and needs no model-specific tokenizer.
+ *
+ * @param text - Text to measure
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,224 @@
+/** Tool definitions for agents that activate skills through tool calls. */
+
+import { createHash } from "node:crypto";
+
+import { SkillProperties } from "./models.js";
+import { loadPromptSkills } from "./prompt.js";
+
+/** Supported tool definition shapes. */
+export const TOOL_PROVIDERS = ["anthropic", "openai", "json-schema"] as const;
+
+/** Tool definition shape name. */
+export type ToolProvider = (typeof TOOL_PROVIDERS)[number];
+
+/** How skills map to tools. */
+export const TOOL_MODES = ["single", "per-skill"] as const;
+
+/** Tool mapping mode name. */
+export type ToolMode = (typeof TOOL_MODES)[number];
+
+/** JSON Schema for a tool's input object. */
+export interface ToolInputSchema {
+  type: "object";
+  properties: Record<string, Record<string, unknown>>;
+  required?: string[];
+}
+
+/** Tool definition as accepted by the Anthropic Messages API. */
+export interface AnthropicToolDefinition {
+  name: string;
+  description: string;
+  input_schema: ToolInputSchema;
+}
+
+/** Function tool definition as accepted by the OpenAI Chat Completions API. */
+export interface OpenAIToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: ToolInputSchema;
+  };
+}
+
+/** A standalone JSON Schema document describing a tool's input. */
+export interface JsonSchemaToolDefinition extends ToolInputSchema {
+  $schema: string;
+  title: string;
+  description: string;
+}
+
+/** A tool definition in any supported shape. */
+export type ToolDefinition =
+  | AnthropicToolDefinition
+  | OpenAIToolDefinition
+  | JsonSchemaToolDefinition;
+
+/** Options for generating tool definitions. */
+export interface ToolDefinitionOptions {
+  /** Output shape (default: "anthropic") */
+  provider?: ToolProvider;
+  /** One activation tool for all skills, or one tool per skill (default: "single") */
+  mode?: ToolMode;
+  /** Name of the activation tool in single mode (default: "activate_skill") */
+  toolName?: string;
+  /** Prefix for tool names in per-skill mode (default: "skill_") */
+  toolNamePrefix?: string;
+}
+
+const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+// Longest tool name accepted by both Anthropic and OpenAI
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/** Generate tool definitions that let a model activate skills.
+ *
+ * In single mode, emits one tool (by default `activate_skill`) whose `name`
+ * parameter is an enum of the skill names; the tool description lists
+ * each skill with its description. In per-skill mode, emits a tool without
+ * parameters for each skill, described by the skill's description. Skill
+ * names that clash once made safe for tool names are told apart by a
+ * short hash suffix. Without skills, no tools are emitted.
+ *
+ * @param skillDirs - List of paths to skill directories
+ * @param options - Provider shape, mode and tool naming
+ * @returns Tool definitions in the requested shape
+ * @throws ParseError If a SKILL.md is missing or has invalid YAML
+ * @throws ValidationError If required fields (name, description) are missing
+ *
+ * @example
+ * ```ts
+ * const tools = await toToolDefinitions(["./skills/pdf-reader"], {
+ *   provider: "openai",
+ * });
+ * // [{ type: "function", function: { name: "activate_skill", ... } }]
+ * ```
+ */
+export async function toToolDefinitions(
+  skillDirs: string[],
+  options: ToolDefinitionOptions = {},
+): Promise<ToolDefinition[]> {
+  const skills = await loadPromptSkills(skillDirs);
+  return formatToolDefinitions(
+    skills.map((skill) => skill.properties),
+    options,
+  );
+}
+
+/** Build tool definitions from already-parsed skill properties.
+ *
+ * @param skills - Properties of each skill
+ * @param options - Provider shape, mode and tool naming
+ * @returns Tool definitions in the requested shape
+ */
+export function formatToolDefinitions(
+  skills: SkillProperties[],
+  options: ToolDefinitionOptions = {},
+): ToolDefinition[] {
+  const provider = options.provider ?? "anthropic";
+
+  if ((options.mode ?? "single") === "single") {
+    // An empty enum is invalid, and there is nothing to activate
+    if (skills.length === 0) {
+      return [];
+    }
+    const lines = [
+      "Activate a skill to load its full instructions. Call this when a task matches one of the skills below.",
+      "",
+      ...skills.map((skill) => `- ${skill.name}: ${skill.description}`),
+    ];
+    return [
+      toolDefinition(
+        provider,
+        toToolName(options.toolName ?? "activate_skill"),
+        lines.join("\n"),
+        {
+          type: "object",
+          properties: {
+            name: {
+              type: "string",
+              enum: [...new Set(skills.map((skill) => skill.name))],
+              description: "Name of the skill to activate",
+            },
+          },
+          required: ["name"],
+        },
+      ),
+    ];
+  }
+
+  const prefix = options.toolNamePrefix ?? "skill_";
+  const names = uniqueToolNames(skills.map((skill) => prefix + skill.name));
+  return skills.map((skill, index) => {
+    let description = skill.description;
+    if (skill.compatibility !== undefined) {
+      description += `\n\nCompatibility: ${skill.compatibility}`;
+    }
+    return toolDefinition(provider, names[index]!, description, {
+      type: "object",
+      properties: {},
+    });
+  });
+}
+
+/** Wrap a tool's name, description and schema in the provider's shape. */
+function toolDefinition(
+  provider: ToolProvider,
+  name: string,
+  description: string,
+  schema: ToolInputSchema,
+): ToolDefinition {
+  switch (provider) {
+    case "anthropic":
+      return { name, description, input_schema: schema };
+    case "openai":
+      return {
+        type: "function",
+        function: { name, description, parameters: schema },
+      };
+    case "json-schema":
+      return {
+        $schema: JSON_SCHEMA_DIALECT,
+        title: name,
+        description,
+        ...schema,
+      };
+  }
+}
+
+/** Make a string safe to use as a tool name. */
+function toToolName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/** Make tool names for several strings, keeping distinct strings distinct.
+ *
+ * Names that would clash once made safe (e.g. `数据` and `日志` both become
+ * `__`) get a short hash of the original string appended; identical
+ * strings get a counter.
+ */
+function uniqueToolNames(names: string[]): string[] {
+  const safe = names.map(toToolName);
+  const counts = new Map<string, number>();
+  for (const name of safe) {
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+
+  const used = new Set<string>();
+  return names.map((name, index) => {
+    let result = safe[index]!;
+    if (counts.get(result)! > 1) {
+      const hash = createHash("sha256").update(name).digest("hex").slice(0, 8);
+      result = withSuffix(result, `_${hash}`);
+    }
+    for (let n = 2; used.has(result); n++) {
+      result = withSuffix(safe[index]!, `_${n}`);
+    }
+    used.add(result);
+    return result;
+  });
+}
+
+/** Append a suffix, shortening the name to stay within the length limit. */
+function withSuffix(name: string, suffix: string): string {
+  return name.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length) + suffix;
+}
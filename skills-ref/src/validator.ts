@@ -2,14 +2,37 @@
 
 import * as path from "node:path";
 
+import { type BodyLintOptions, lintBody } from "./body.js";
+import { type Diagnostic, hasErrors } from "./diagnostics.js";
 import { ParseError } from "./errors.js";
-import { findSkillMd, parseFrontmatter } from "./parser.js";
+import { findSkillMd, type ParsedSkillMd, parseSkillMd } from "./parser.js";
+import { parseAllowedTools } from "./permissions.js";
+import { checkReferences } from "./references.js";
 import { promises as fs } from "node:fs";
 
 const MAX_SKILL_NAME_LENGTH = 64;
 const MAX_DESCRIPTION_LENGTH = 1024;
 const MAX_COMPATIBILITY_LENGTH = 500;
 
+/** Validation outcome for a single skill directory. */
+export interface SkillValidationResult {
+  /** Path to the skill directory that was validated */
+  skillDir: string;
+  /** All findings for the skill */
+  diagnostics: Diagnostic[];
+  /** True if no diagnostic has error severity */
+  valid: boolean;
+}
+
+/** Options for validating a skill directory. */
+export interface ValidateOptions {
+  /** Lint the SKILL.md body, optionally with custom limits (default: off;
+   *  the `validate` command turns it on unless given --no-body-lint) */
+  lintBody?: boolean | BodyLintOptions;
+  /** Check that files referenced from the body exist (default: off) */
+  checkReferences?: boolean;
+}
+
 /** Check if a character is a Unicode letter. */
 function isLetter(c: string): boolean {
   // Check using Unicode character categories - simpler approach
@@ -38,8 +61,8 @@ function isDigit(c: string): boolean {
   return code !== undefined && code >= 48 && code <= 57; // 0-9
 }
 
-// Allowed frontmatter fields per Agent Skills Spec
-const ALLOWED_FIELDS = new Set([
+/** Top-level frontmatter fields allowed by the Agent Skills spec. */
+export const ALLOWED_FIELDS: ReadonlySet<string> = new Set([
   "name",
   "description",
   "license",
@@ -48,6 +71,11 @@ const ALLOWED_FIELDS = new Set([
   "compatibility",
 ]);
 
+/** Create an error-severity diagnostic. */
+function error(code: string, message: string, field?: string): Diagnostic {
+  return { code, severity: "error", field, message };
+}
+
 /** Normalize a string using NFKC normalization. */
 function normalize(text: string): string {
   return text.normalize("NFKC");
@@ -58,11 +86,13 @@ function normalize(text: string): string {
  * Skill names support i18n characters (Unicode letters) plus hyphens.
  * Names must be lowercase and cannot start/end with hyphens.
  */
-function validateName(name: string, skillDir: string): string[] {
-  const errors: string[] = [];
+function validateName(name: string, skillDir: string): Diagnostic[] {
+  const errors: Diagnostic[] = [];
 
   if (!name || typeof name !== "string" || !name.trim()) {
-    errors.push("Field 'name' must be a non-empty string");
+    errors.push(
+      error("name-empty", "Field 'name' must be a non-empty string", "name"),
+    );
     return errors;
   }
 
@@ -70,20 +100,42 @@ function validateName(name: string, skillDir: string): string[] {
 
   if (normalized.length > MAX_SKILL_NAME_LENGTH) {
     errors.push(
-      `Skill name '${normalized}' exceeds ${MAX_SKILL_NAME_LENGTH} character limit (${normalized.length} chars)`,
+      error(
+        "name-too-long",
+        `Skill name '${normalized}' exceeds ${MAX_SKILL_NAME_LENGTH} character limit (${normalized.length} chars)`,
+        "name",
+      ),
     );
   }
 
   if (normalized !== normalized.toLowerCase()) {
-    errors.push(`Skill name '${normalized}' must be lowercase`);
+    errors.push(
+      error(
+        "name-uppercase",
+        `Skill name '${normalized}' must be lowercase`,
+        "name",
+      ),
+    );
   }
 
   if (normalized.startsWith("-") || normalized.endsWith("-")) {
-    errors.push("Skill name cannot start or end with a hyphen");
+    errors.push(
+      error(
+        "name-hyphen-boundary",
+        "Skill name cannot start or end with a hyphen",
+        "name",
+      ),
+    );
   }
 
   if (normalized.includes("--")) {
-    errors.push("Skill name cannot contain consecutive hyphens");
+    errors.push(
+      error(
+        "name-consecutive-hyphens",
+        "Skill name cannot contain consecutive hyphens",
+        "name",
+      ),
+    );
   }
 
   // Allow Unicode letters (including i18n characters), digits, and hyphens
@@ -93,7 +145,11 @@ function validateName(name: string, skillDir: string): string[] {
   );
   if (hasInvalidChars) {
     errors.push(
-      `Skill name '${normalized}' contains invalid characters. Only letters, digits, and hyphens are allowed.`,
+      error(
+        "name-invalid-characters",
+        `Skill name '${normalized}' contains invalid characters. Only letters, digits, and hyphens are allowed.`,
+        "name",
+      ),
     );
   }
 
@@ -101,7 +157,11 @@ function validateName(name: string, skillDir: string): string[] {
     const dirName = normalize(path.basename(skillDir));
     if (dirName !== normalized) {
       errors.push(
-        `Directory name '${path.basename(skillDir)}' must match skill name '${normalized}'`,
+        error(
+          "name-directory-mismatch",
+          `Directory name '${path.basename(skillDir)}' must match skill name '${normalized}'`,
+          "name",
+        ),
       );
     }
   }
@@ -110,17 +170,27 @@ function validateName(name: string, skillDir: string): string[] {
 }
 
 /** Validate description format. */
-function validateDescription(description: string): string[] {
-  const errors: string[] = [];
+function validateDescription(description: string): Diagnostic[] {
+  const errors: Diagnostic[] = [];
 
   if (!description || typeof description !== "string" || !description.trim()) {
-    errors.push("Field 'description' must be a non-empty string");
+    errors.push(
+      error(
+        "description-empty",
+        "Field 'description' must be a non-empty string",
+        "description",
+      ),
+    );
     return errors;
   }
 
   if (description.length > MAX_DESCRIPTION_LENGTH) {
     errors.push(
-      `Description exceeds ${MAX_DESCRIPTION_LENGTH} character limit (${description.length} chars)`,
+      error(
+        "description-too-long",
+        `Description exceeds ${MAX_DESCRIPTION_LENGTH} character limit (${description.length} chars)`,
+        "description",
+      ),
     );
   }
 
@@ -128,33 +198,117 @@ function validateDescription(description: string): string[] {
 }
 
 /** Validate compatibility format. */
-function validateCompatibility(compatibility: unknown): string[] {
-  const errors: string[] = [];
+function validateCompatibility(compatibility: unknown): Diagnostic[] {
+  const errors: Diagnostic[] = [];
 
   if (typeof compatibility !== "string") {
-    errors.push("Field 'compatibility' must be a string");
+    errors.push(
+      error(
+        "compatibility-type",
+        "Field 'compatibility' must be a string",
+        "compatibility",
+      ),
+    );
     return errors;
   }
 
   if (compatibility.length > MAX_COMPATIBILITY_LENGTH) {
     errors.push(
-      `Compatibility exceeds ${MAX_COMPATIBILITY_LENGTH} character limit (${compatibility.length} chars)`,
+      error(
+        "compatibility-too-long",
+        `Compatibility exceeds ${MAX_COMPATIBILITY_LENGTH} character limit (${compatibility.length} chars)`,
+        "compatibility",
+      ),
     );
   }
 
   return errors;
 }
 
+/** Validate allowed-tools syntax. */
+function validateAllowedTools(allowedTools: unknown): Diagnostic[] {
+  if (typeof allowedTools !== "string") {
+    return [
+      error(
+        "allowed-tools-type",
+        "Field 'allowed-tools' must be a space-delimited string",
+        "allowed-tools",
+      ),
+    ];
+  }
+  return parseAllowedTools(allowedTools).diagnostics;
+}
+
+/** Name of a YAML value's type, for diagnostics. */
+function typeName(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "list";
+  }
+  return typeof value === "object" ? "mapping" : typeof value;
+}
+
+/** Validate that metadata maps keys to string values.
+ *
+ * Other scalars are reported as warnings, since their string form usually
+ * reads as written. Lists and mappings are errors: they cannot be
+ * represented as strings without reading metadata in typed mode.
+ */
+function validateMetadataValues(metadataValue: unknown): Diagnostic[] {
+  if (metadataValue === null || metadataValue === undefined) {
+    return [];
+  }
+  if (typeName(metadataValue) !== "mapping") {
+    return [
+      error(
+        "metadata-type",
+        "Field 'metadata' must be a mapping of keys to string values",
+        "metadata",
+      ),
+    ];
+  }
+
+  const diagnostics: Diagnostic[] = [];
+  for (const [key, value] of Object.entries(metadataValue as object)) {
+    const type = typeName(value);
+    if (type === "list" || type === "mapping") {
+      diagnostics.push(
+        error(
+          "metadata-value-nested",
+          `Metadata value for '${key}' must be a string, got ${type}`,
+          "metadata",
+        ),
+      );
+    } else if (type !== "string") {
+      diagnostics.push({
+        code: "metadata-value-type",
+        severity: "warning",
+        field: "metadata",
+        message: `Metadata value for '${key}' should be a string, got ${type}; quote it to keep it as written`,
+      });
+    }
+  }
+  return diagnostics;
+}
+
 /** Validate that only allowed fields are present. */
-function validateMetadataFields(metadata: Record<string, unknown>): string[] {
-  const errors: string[] = [];
+function validateMetadataFields(
+  metadata: Record<string, unknown>,
+): Diagnostic[] {
+  const errors: Diagnostic[] = [];
 
-  const extraFields = Object.keys(metadata).filter(
-    (k) => !ALLOWED_FIELDS.has(k),
-  );
+  const extraFields = Object.keys(metadata)
+    .filter((k) => !ALLOWED_FIELDS.has(k))
+    .sort();
   if (extraFields.length > 0) {
     errors.push(
-      `Unexpected fields in frontmatter: ${extraFields.sort().join(", ")}. Only ${[...ALLOWED_FIELDS].sort().join(", ")} are allowed.`,
+      error(
+        "unexpected-fields",
+        `Unexpected fields in frontmatter: ${extraFields.join(", ")}. Only ${[...ALLOWED_FIELDS].sort().join(", ")} are allowed.`,
+        extraFields[0],
+      ),
     );
   }
 
@@ -168,23 +322,36 @@ function validateMetadataFields(metadata: Record<string, unknown>): string[] {
  *
  * @param metadata - Parsed YAML frontmatter dictionary
  * @param skillDir - Optional path to skill directory (for name-directory match check)
- * @returns List of validation error messages. Empty list means valid.
+ * @returns List of validation diagnostics. The skill is valid if none
+ *          has error severity (see hasErrors()).
  */
 export function validateMetadata(
   metadata: Record<string, unknown>,
   skillDir?: string,
-): string[] {
-  const errors: string[] = [];
+): Diagnostic[] {
+  const errors: Diagnostic[] = [];
   errors.push(...validateMetadataFields(metadata));
 
   if (!("name" in metadata)) {
-    errors.push("Missing required field in frontmatter: name");
+    errors.push(
+      error(
+        "name-missing",
+        "Missing required field in frontmatter: name",
+        "name",
+      ),
+    );
   } else {
     errors.push(...validateName(String(metadata.name), skillDir ?? ""));
   }
 
   if (!("description" in metadata)) {
-    errors.push("Missing required field in frontmatter: description");
+    errors.push(
+      error(
+        "description-missing",
+        "Missing required field in frontmatter: description",
+        "description",
+      ),
+    );
   } else {
     errors.push(...validateDescription(String(metadata.description)));
   }
@@ -193,45 +360,155 @@ export function validateMetadata(
     errors.push(...validateCompatibility(metadata.compatibility));
   }
 
+  if ("allowed-tools" in metadata) {
+    errors.push(...validateAllowedTools(metadata["allowed-tools"]));
+  }
+
+  if ("metadata" in metadata) {
+    errors.push(...validateMetadataValues(metadata.metadata));
+  }
+
   return errors;
 }
 
+/** Attach the SKILL.md path and source range to each diagnostic.
+ *
+ * Diagnostics about a field point at that field's entry; findings about
+ * absent fields point at the frontmatter block as a whole.
+ */
+function locate(
+  diagnostics: Diagnostic[],
+  file: string,
+  parsed: ParsedSkillMd,
+): Diagnostic[] {
+  return diagnostics.map((d) => ({
+    ...d,
+    file,
+    range:
+      (d.field !== undefined ? parsed.fieldRanges[d.field] : undefined) ??
+      parsed.frontmatterRange,
+  }));
+}
+
 /** Validate a skill directory.
  *
  * @param skillDir - Path to the skill directory
- * @returns List of validation error messages. Empty list means valid.
+ * @param options - Optional checks to run in addition to frontmatter rules
+ * @returns List of validation diagnostics. The skill is valid if none
+ *          has error severity (see hasErrors()).
  */
-export async function validate(skillDir: string): Promise<string[]> {
+export async function validate(
+  skillDir: string,
+  options: ValidateOptions = {},
+): Promise<Diagnostic[]> {
   const resolvedDir = path.resolve(skillDir);
 
   try {
     await fs.access(resolvedDir);
   } catch {
-    return [`Path does not exist: ${resolvedDir}`];
+    return [error("path-not-found", `Path does not exist: ${resolvedDir}`)];
   }
 
   try {
     const stat = await fs.stat(resolvedDir);
     if (!stat.isDirectory()) {
-      return [`Not a directory: ${resolvedDir}`];
+      return [error("not-a-directory", `Not a directory: ${resolvedDir}`)];
     }
   } catch {
-    return [`Not a directory: ${resolvedDir}`];
+    return [error("not-a-directory", `Not a directory: ${resolvedDir}`)];
   }
 
   const skillMd = await findSkillMd(resolvedDir);
   if (skillMd === null) {
-    return ["Missing required file: SKILL.md"];
+    return [error("skill-md-missing", "Missing required file: SKILL.md")];
   }
 
   try {
     const content = await fs.readFile(skillMd, "utf-8");
-    const [metadata] = parseFrontmatter(content);
-    return validateMetadata(metadata, resolvedDir);
+    // Typed, so non-string metadata values can be reported
+    const parsed = parseSkillMd(content, { typedMetadata: true });
+    const diagnostics = locate(
+      validateMetadata(parsed.metadata, resolvedDir),
+      skillMd,
+      parsed,
+    );
+    if (options.lintBody) {
+      const bodyOptions = options.lintBody === true ? {} : options.lintBody;
+      for (const d of lintBody(
+        parsed.body,
+        parsed.bodyStartLine,
+        bodyOptions,
+      )) {
+        diagnostics.push({ ...d, file: skillMd });
+      }
+    }
+    if (options.checkReferences) {
+      const references = await checkReferences(
+        resolvedDir,
+        parsed.body,
+        parsed.bodyStartLine,
+      );
+      for (const d of references) {
+        diagnostics.push({ ...d, file: skillMd });
+      }
+    }
+    return diagnostics;
   } catch (e) {
     if (e instanceof ParseError) {
-      return [e.message];
+      return [{ ...error(e.code, e.message), file: skillMd, range: e.range }];
     }
-    return [String(e)];
+    return [error("parse-error", String(e))];
   }
 }
+
+/** Options for validating many skills at once. */
+export interface ValidateSkillsOptions extends ValidateOptions {
+  /** Maximum number of skills validated at the same time (default: 8;
+   *  values below 1 mean 1) */
+  concurrency?: number;
+}
+
+/** Validate a skill directory and wrap the outcome as a result.
+ *
+ * @param skillDir - Path to the skill directory
+ * @param options - Optional checks to run in addition to frontmatter rules
+ * @returns The skill's diagnostics and whether it is valid
+ */
+export async function validateSkill(
+  skillDir: string,
+  options: ValidateOptions = {},
+): Promise<SkillValidationResult> {
+  const diagnostics = await validate(skillDir, options);
+  return { skillDir, diagnostics, valid: !hasErrors(diagnostics) };
+}
+
+/** Validate many skill directories with a bounded number of workers.
+ *
+ * @param skillDirs - Paths to skill directories
+ * @param options - Concurrency settings
+ * @returns One result per input directory, in input order
+ */
+export async function validateSkills(
+  skillDirs: string[],
+  options: ValidateSkillsOptions = {},
+): Promise<SkillValidationResult[]> {
+  const requested = options.concurrency ?? 8;
+  // Fall back to the default rather than start no workers
+  const concurrency = Number.isInteger(requested) ? Math.max(1, requested) : 8;
+  const results: SkillValidationResult[] = new Array(skillDirs.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < skillDirs.length) {
+      const index = next++;
+      results[index] = await validateSkill(skillDirs[index]!, options);
+    }
+  }
+
+  const workers = Array.from(
+    { length: Math.min(concurrency, skillDirs.length) },
+    worker,
+  );
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,3 @@
+/** Package version, importable without going through the entry point. */
+
+export const version = "0.1.5";
@@ -0,0 +1,312 @@
+/** Watch skill directories and report added, changed and removed skills. */
+
+import { EventEmitter } from "node:events";
+import { type FSWatcher, promises as fs, watch } from "node:fs";
+import * as path from "node:path";
+
+import {
+  DEFAULT_IGNORE,
+  type DiscoverOptions,
+  type DiscoveredSkill,
+  discoverSkills,
+} from "./discovery.js";
+import { matchesAnyGlob } from "./glob.js";
+import { isWithin } from "./paths.js";
+
+/** Kind of change reported by a SkillWatcher. */
+export type SkillChangeType = "add" | "change" | "remove";
+
+/** A change to a skill directory. */
+export interface SkillChangeEvent {
+  type: SkillChangeType;
+  /** The skill as re-read from disk (for removals, its last known state) */
+  skill: DiscoveredSkill;
+}
+
+/** Options for watching skills. */
+export interface WatchOptions extends DiscoverOptions {
+  /** Quiet period before changes are processed, in ms (default: 100) */
+  debounceMs?: number;
+}
+
+type SkillWatcherEvents = {
+  add: [SkillChangeEvent];
+  change: [SkillChangeEvent];
+  remove: [SkillChangeEvent];
+  ready: [];
+  error: [Error];
+};
+
+/** Watches roots for skill changes.
+ *
+ * Filesystem events are debounced, and only the SKILL.md of each affected
+ * skill is re-read. A change to any file inside a skill directory reports
+ * a `change` for that skill, since its references may have been affected.
+ *
+ * Where Node cannot watch a tree recursively (Node 18 on Linux), each
+ * directory gets its own watcher, and new directories are picked up as
+ * they appear.
+ */
+export class SkillWatcher extends EventEmitter<SkillWatcherEvents> {
+  /** Resolves once the initial scan has finished and watching has begun;
+   *  rejects if a root cannot be scanned */
+  readonly ready: Promise<void>;
+
+  private readonly roots: string[];
+  private readonly options: WatchOptions;
+  private readonly known = new Map<string, DiscoveredSkill>();
+  private readonly watchers: FSWatcher[] = [];
+  // Per-directory watchers, when recursive watching is unavailable
+  private readonly dirWatchers = new Map<string, FSWatcher>();
+  // Changed path -> root it was reported under
+  private readonly pending = new Map<string, string>();
+  private timer?: NodeJS.Timeout;
+  private flushing = Promise.resolve();
+  private closed = false;
+
+  constructor(roots: string[], options: WatchOptions = {}) {
+    super();
+    this.roots = roots.map((root) => path.resolve(root));
+    this.options = options;
+    this.ready = this.start();
+    // The failure already surfaces through `ready`
+    this.ready.catch((e) => this.fail(e));
+  }
+
+  /** Skills currently known to the watcher, sorted by path. */
+  get skills(): DiscoveredSkill[] {
+    return [...this.known.values()].sort((a, b) =>
+      a.path.localeCompare(b.path),
+    );
+  }
+
+  /** Stop watching. Pending changes are discarded. */
+  close(): void {
+    this.closed = true;
+    clearTimeout(this.timer);
+    for (const watcher of [...this.watchers, ...this.dirWatchers.values()]) {
+      watcher.close();
+    }
+  }
+
+  private async start(): Promise<void> {
+    for (const skill of await discoverSkills(this.roots, this.options)) {
+      this.known.set(skill.path, skill);
+    }
+    if (this.closed) {
+      return;
+    }
+
+    for (const root of this.roots) {
+      try {
+        const watcher = watch(root, { recursive: true }, (_event, filename) => {
+          if (filename !== null) {
+            this.record(path.join(root, filename.toString()), root);
+          }
+        });
+        watcher.on("error", (e) => this.fail(e));
+        this.watchers.push(watcher);
+      } catch (e) {
+        const code = (e as NodeJS.ErrnoException).code;
+        if (code !== "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM") {
+          throw e;
+        }
+        await this.watchTree(root, root);
+      }
+    }
+    this.emit("ready");
+  }
+
+  /** Check whether a path below a root matches the ignore patterns. */
+  private isIgnored(changedPath: string, root: string): boolean {
+    const relPath = path.relative(root, changedPath).split(path.sep).join("/");
+    return matchesAnyGlob(relPath, this.options.ignore ?? DEFAULT_IGNORE);
+  }
+
+  /** Queue a changed path and restart the debounce timer. */
+  private record(changedPath: string, root: string): void {
+    if (this.closed || this.isIgnored(changedPath, root)) {
+      return;
+    }
+    this.pending.set(changedPath, root);
+    clearTimeout(this.timer);
+    this.timer = setTimeout(
+      () => this.scheduleFlush(),
+      this.options.debounceMs ?? 100,
+    );
+  }
+
+  /** Watch a directory and its subdirectories one watcher at a time. */
+  private async watchTree(dir: string, root: string): Promise<void> {
+    if (this.closed || this.dirWatchers.has(dir)) {
+      return;
+    }
+    if (dir !== root && this.isIgnored(dir, root)) {
+      return;
+    }
+    const stat = await fs.lstat(dir).catch(() => null);
+    if (!stat?.isDirectory()) {
+      return;
+    }
+
+    const watcher = watch(dir, (event, filename) => {
+      if (filename === null) {
+        return;
+      }
+      const changedPath = path.join(dir, filename.toString());
+      this.record(changedPath, root);
+      if (event === "rename") {
+        this.updateTree(changedPath, root).catch((e) => this.fail(e));
+      }
+    });
+    watcher.on("error", (e) => this.fail(e));
+    this.dirWatchers.set(dir, watcher);
+
+    const entries = await fs
+      .readdir(dir, { withFileTypes: true })
+      .catch(() => []);
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        await this.watchTree(path.join(dir, entry.name), root);
+      }
+    }
+  }
+
+  /** Watch a created directory, or drop the watchers of a removed one. */
+  private async updateTree(changedPath: string, root: string): Promise<void> {
+    if (await fs.lstat(changedPath).catch(() => null)) {
+      await this.watchTree(changedPath, root);
+      return;
+    }
+    for (const [dir, watcher] of this.dirWatchers) {
+      if (isWithin(changedPath, dir)) {
+        watcher.close();
+        this.dirWatchers.delete(dir);
+      }
+    }
+  }
+
+  private scheduleFlush(): void {
+    // Serialize flushes so events are emitted in order. The chain must
+    // never reject, or every later flush would be skipped.
+    this.flushing = this.flushing
+      .then(() => this.flush())
+      .catch((e) => this.fail(e));
+  }
+
+  /** Report an error to `error` listeners, if any.
+   *
+   * An `error` event with no listener would throw, and the watcher has no
+   * caller to throw to.
+   */
+  private fail(error: Error): void {
+    if (this.listenerCount("error") > 0) {
+      this.emit("error", error);
+    }
+  }
+
+  private async flush(): Promise<void> {
+    const changed = [...this.pending];
+    this.pending.clear();
+
+    const affected = new Set<string>();
+    const rescan = new Map<string, string>();
+
+    for (const [changedPath, root] of changed) {
+      let owner: string | undefined;
+      for (const skillDir of this.known.keys()) {
+        // A known skill at or below the changed path (e.g. removed directory)
+        if (isWithin(changedPath, skillDir)) {
+          affected.add(skillDir);
+        }
+        // The known skill containing the changed path
+        if (isWithin(skillDir, changedPath)) {
+          owner = skillDir;
+        }
+      }
+
+      if (owner !== undefined) {
+        affected.add(owner);
+      } else if (path.basename(changedPath).toLowerCase() === "skill.md") {
+        rescan.set(path.dirname(changedPath), root);
+      } else {
+        rescan.set(changedPath, root);
+      }
+    }
+
+    for (const skillDir of affected) {
+      await this.refresh(skillDir);
+    }
+    for (const [dir, root] of rescan) {
+      await this.scan(dir, root);
+    }
+  }
+
+  /** Re-read a known skill and report it as changed or removed. */
+  private async refresh(skillDir: string): Promise<void> {
+    const previous = this.known.get(skillDir)!;
+    const [skill] = await discoverSkills([skillDir], {
+      ...this.options,
+      maxDepth: 0,
+    }).catch(() => []);
+
+    if (skill === undefined || skill.path !== skillDir) {
+      this.known.delete(skillDir);
+      this.report("remove", previous);
+    } else {
+      this.known.set(skillDir, skill);
+      this.report("change", skill);
+    }
+  }
+
+  /** Look for new skills at or below a changed path. */
+  private async scan(dir: string, root: string): Promise<void> {
+    const stat = await fs.stat(dir).catch(() => null);
+    if (!stat?.isDirectory()) {
+      return;
+    }
+
+    const depth = path.relative(root, dir).split(path.sep).filter(Boolean);
+    const maxDepth = (this.options.maxDepth ?? Infinity) - depth.length;
+    if (maxDepth < 0) {
+      return;
+    }
+
+    const found = await discoverSkills([dir], {
+      ...this.options,
+      maxDepth,
+    }).catch(() => []);
+    for (const skill of found) {
+      if (!this.known.has(skill.path)) {
+        this.known.set(skill.path, skill);
+        this.report("add", skill);
+      }
+    }
+  }
+
+  private report(type: SkillChangeType, skill: DiscoveredSkill): void {
+    if (!this.closed) {
+      this.emit(type, { type, skill });
+    }
+  }
+}
+
+/** Watch one or more roots for skill changes.
+ *
+ * @param roots - Directories to watch (each may itself be a skill)
+ * @param options - Discovery settings and debounce interval
+ * @returns A watcher emitting `add`, `change` and `remove` events
+ *
+ * @example
+ * ```ts
+ * const watcher = watchSkills(["./skills"]);
+ * watcher.on("change", ({ skill }) => console.log("changed", skill.path));
+ * await watcher.ready;
+ * ```
+ */
+export function watchSkills(
+  roots: string[],
+  options: WatchOptions = {},
+): SkillWatcher {
+  return new SkillWatcher(roots, options);
+}
@@ -0,0 +1,421 @@
+/** Writing skill properties back to SKILL.md. */
+
+import * as yaml from "js-yaml";
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import { isDeepStrictEqual } from "node:util";
+
+import { ParseError } from "./errors.js";
+import { SkillProperties } from "./models.js";
+import { findSkillMd, parseSkillMd } from "./parser.js";
+
+/** Changes to frontmatter fields, keyed by field name.
+ *
+ * A value replaces the field (or adds it); `undefined` removes it.
+ */
+export type FrontmatterPatch = Record<string, unknown>;
+
+/** Spec fields in the order they are written. */
+export const FIELD_ORDER: readonly string[] = [
+  "name",
+  "description",
+  "license",
+  "compatibility",
+  "allowed-tools",
+  "metadata",
+];
+
+// Optional spec fields; writeProperties() removes them when unset
+const OPTIONAL_FIELDS = [
+  "license",
+  "compatibility",
+  "allowed-tools",
+  "metadata",
+];
+
+// A key at the start of a line, after any indentation, optionally quoted
+const KEY_LINE = /^(\s*)(?:"([^"]*)"|'([^']*)'|([^\s#:'"-][^:]*?))\s*:(?=\s|$)/;
+
+/** A replacement of whole lines: `deleteCount` lines from `start` (0-based). */
+interface LineEdit {
+  start: number;
+  deleteCount: number;
+  lines: string[];
+}
+
+/** Serialize properties as YAML frontmatter, without the `---` delimiters.
+ *
+ * Accepts SkillProperties or a toDict()-style object, so fields use the
+ * spec's names (`allowed-tools`). Spec fields come first, in spec order,
+ * followed by any other keys in their original order.
+ *
+ * @param properties - Properties to serialize
+ * @returns YAML text ending with a newline
+ *
+ * @example
+ * ```ts
+ * const yamlText = serializeFrontmatter(await readProperties("./pdf-reader"));
+ * ```
+ */
+export function serializeFrontmatter(
+  properties: SkillProperties | Record<string, unknown>,
+): string {
+  const dict =
+    properties instanceof SkillProperties ? properties.toDict() : properties;
+  const ordered: Record<string, unknown> = {};
+  for (const key of [...FIELD_ORDER, ...Object.keys(dict)]) {
+    if (dict[key] !== undefined && !(key in ordered)) {
+      ordered[key] = dict[key];
+    }
+  }
+  return yaml.dump(ordered, { lineWidth: -1 });
+}
+
+/** Apply a patch to the frontmatter of SKILL.md content.
+ *
+ * Edits are made line by line: entries whose value does not change are
+ * left exactly as written, so the body, comments and key order are kept.
+ * A changed single-line value keeps its key spelling, trailing comment
+ * and quote style (if the new value can use it). Mapping values, such as
+ * `metadata`, are patched key by key when written in block style. New
+ * spec fields are inserted after the spec fields that precede them; other
+ * new keys go at the end of the frontmatter.
+ *
+ * @param content - Raw SKILL.md content
+ * @param patch - Fields to set or remove
+ * @returns The updated content
+ * @throws ParseError If the frontmatter cannot be parsed
+ */
+export function patchFrontmatter(
+  content: string,
+  patch: FrontmatterPatch,
+): string {
+  const parsed = parseSkillMd(content);
+  const lines = content.split("\n");
+  const edits: LineEdit[] = [];
+  // Index of the closing --- line
+  const closing = parsed.frontmatterRange.end.line - 1;
+
+  // Existing entries first, so lines appended to a mapping come before
+  // new keys inserted at the same place
+  for (const [key, value] of Object.entries(patch)) {
+    const range = parsed.fieldRanges[key];
+    if (range === undefined) {
+      continue;
+    }
+    const start = range.start.line - 1;
+    const deleteCount = range.end.line - range.start.line + 1;
+    if (value === undefined) {
+      edits.push({ start, deleteCount, lines: [] });
+    } else if (!isDeepStrictEqual(parsed.metadata[key], value)) {
+      replaceEntry(
+        edits,
+        lines,
+        start,
+        deleteCount,
+        parsed.metadata[key],
+        value,
+      );
+    }
+  }
+
+  // New keys in spec order, so those inserted at the same place line up
+  const rank = (key: string) =>
+    FIELD_ORDER.includes(key) ? FIELD_ORDER.indexOf(key) : FIELD_ORDER.length;
+  const added = Object.keys(patch).sort((a, b) => rank(a) - rank(b));
+  for (const key of added) {
+    const value = patch[key];
+    if (parsed.fieldRanges[key] !== undefined || value === undefined) {
+      continue;
+    }
+    const order = FIELD_ORDER.indexOf(key);
+    const previous = FIELD_ORDER.slice(0, Math.max(order, 0))
+      .map((field) => parsed.fieldRanges[field])
+      .filter((r) => r !== undefined)
+      .pop();
+    const start =
+      order === -1
+        ? closing
+        : previous
+          ? previous.end.line
+          : parsed.frontmatterRange.start.line;
+    insert(edits, start, dumpEntry(key, value));
+  }
+
+  if (edits.length === 0) {
+    return content;
+  }
+  const eol = content.includes("\r\n") ? "\r" : "";
+  // Bottom up, and deletions before insertions at the same line, so
+  // earlier edits do not shift later ones
+  edits.sort((a, b) => b.start - a.start || b.deleteCount - a.deleteCount);
+  for (const edit of edits) {
+    lines.splice(
+      edit.start,
+      edit.deleteCount,
+      ...edit.lines.map((line) => line + eol),
+    );
+  }
+  return lines.join("\n");
+}
+
+/** Add lines at `start`, after any lines already inserted there. */
+function insert(edits: LineEdit[], start: number, lines: string[]): void {
+  const existing = edits.find((e) => e.start === start && e.deleteCount === 0);
+  if (existing) {
+    existing.lines.push(...lines);
+  } else {
+    edits.push({ start, deleteCount: 0, lines });
+  }
+}
+
+/** Serialize a key-value pair as YAML lines. */
+function dumpEntry(key: string, value: unknown): string[] {
+  return yaml
+    .dump({ [key]: value }, { lineWidth: -1 })
+    .trimEnd()
+    .split("\n");
+}
+
+/** Check for a plain object, as opposed to arrays and scalars. */
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Plan the edits that replace one entry's value.
+ *
+ * @param edits - Planned edits, added to in place
+ * @param lines - Content lines
+ * @param start - Index of the entry's key line
+ * @param deleteCount - Number of lines in the entry
+ * @param current - The entry's current value
+ * @param value - The new value
+ */
+function replaceEntry(
+  edits: LineEdit[],
+  lines: string[],
+  start: number,
+  deleteCount: number,
+  current: unknown,
+  value: unknown,
+): void {
+  const keyLine = lines[start]!.replace(/\r$/, "");
+  const match = KEY_LINE.exec(keyLine)!;
+  const indent = match[1]!;
+  const key = match[2] ?? match[3] ?? match[4]!;
+  const whole = () =>
+    edits.push({
+      start,
+      deleteCount,
+      lines: dumpEntry(key, value).map((line) => indent + line),
+    });
+
+  // Block mapping: patch each child
+  const blockStart = /^[^:]*:\s*(#.*)?$/.test(keyLine);
+  if (blockStart && isMapping(current) && isMapping(value)) {
+    const children = scanEntries(lines, start + 1, start + deleteCount);
+    if (children === null) {
+      whole();
+      return;
+    }
+    for (const childKey of new Set([
+      ...Object.keys(current),
+      ...Object.keys(value),
+    ])) {
+      const child = children.entries[childKey];
+      const childValue = value[childKey];
+      if (child === undefined) {
+        if (childValue !== undefined) {
+          insert(
+            edits,
+            start + deleteCount,
+            dumpEntry(childKey, childValue).map(
+              (line) => children.indent + line,
+            ),
+          );
+        }
+      } else if (childValue === undefined) {
+        edits.push({ ...child, lines: [] });
+      } else if (!isDeepStrictEqual(current[childKey], childValue)) {
+        replaceEntry(
+          edits,
+          lines,
+          child.start,
+          child.deleteCount,
+          current[childKey],
+          childValue,
+        );
+      }
+    }
+    return;
+  }
+
+  // Single-line scalar: keep the key, quote style and comment
+  const entry = deleteCount === 1 ? splitEntry(keyLine) : null;
+  const dumped = yaml.dump(value, { lineWidth: -1 }).trimEnd();
+  if (entry === null || isMapping(value) || dumped.includes("\n")) {
+    whole();
+    return;
+  }
+  const quote = entry.raw[0];
+  const text =
+    typeof value === "string" &&
+    (quote === '"' || quote === "'") &&
+    !/["'\\\n]/.test(value)
+      ? `${quote}${value}${quote}`
+      : dumped;
+  edits.push({
+    start,
+    deleteCount,
+    lines: [entry.prefix + text + entry.comment],
+  });
+}
+
+/** Locate the child entries of a block mapping.
+ *
+ * @param lines - Content lines
+ * @param from - Index of the first line after the parent key
+ * @param to - Index just past the parent entry
+ * @returns Child ranges keyed by name and their indentation, or null if
+ *          the lines are not a simple block mapping
+ */
+function scanEntries(
+  lines: string[],
+  from: number,
+  to: number,
+): {
+  indent: string;
+  entries: Record<string, { start: number; deleteCount: number }>;
+} | null {
+  let indent: string | undefined;
+  const entries: Record<string, { start: number; deleteCount: number }> = {};
+  let current: { start: number; deleteCount: number } | undefined;
+
+  for (let i = from; i < to; i++) {
+    const line = lines[i]!.replace(/\r$/, "");
+    if (!line.trim() || line.trimStart().startsWith("#")) {
+      continue;
+    }
+    const match = KEY_LINE.exec(line);
+    indent ??= match?.[1];
+    if (!indent) {
+      return null;
+    }
+    if (match !== null && match[1] === indent) {
+      current = { start: i, deleteCount: 1 };
+      entries[match[2] ?? match[3] ?? match[4]!] ??= current;
+    } else if (current !== undefined && line.startsWith(indent + " ")) {
+      current.deleteCount = i - current.start + 1;
+    } else {
+      return null;
+    }
+  }
+  return indent === undefined ? null : { indent, entries };
+}
+
+/** Split a single-line `key: value` entry into its parts.
+ *
+ * @param line - The entry's line
+ * @returns The key with its separator, the value as written and any
+ *          trailing comment; or null if the line holds no complete value
+ */
+function splitEntry(
+  line: string,
+): { prefix: string; raw: string; comment: string } | null {
+  const match = /^([^:]*:[ \t]*)(.*?)\r?$/.exec(line);
+  let expected: unknown;
+  try {
+    expected = Object.values(yaml.load(line.trim()) as object)[0];
+  } catch {
+    return null;
+  }
+  if (match === null || expected === undefined) {
+    return null;
+  }
+
+  // Try each " #" as the start of a comment, then the whole rest
+  const prefix = match[1]!;
+  const rest = match[2]!;
+  const ends = [...rest.matchAll(/\s+#/g)].map((hash) => hash.index);
+  for (const end of [...ends, rest.length]) {
+    try {
+      if (isDeepStrictEqual(yaml.load(rest.slice(0, end)), expected)) {
+        return { prefix, raw: rest.slice(0, end), comment: rest.slice(end) };
+      }
+    } catch {
+      // Not a complete value, keep looking
+    }
+  }
+  return null;
+}
+
+/** Get the value of a single-line `key: value` entry as written.
+ *
+ * @param line - The entry's line
+ * @returns The value's source text, without any comment, or null
+ */
+export function valueSource(line: string): string | null {
+  return splitEntry(line)?.raw ?? null;
+}
+
+/** Update fields in a skill's SKILL.md, keeping everything else as written.
+ *
+ * @param skillDir - Path to the skill directory
+ * @param patch - Fields to set, or remove with `undefined`
+ * @throws ParseError If SKILL.md is missing or its frontmatter is invalid
+ *
+ * @example
+ * ```ts
+ * await updateFrontmatter("./pdf-reader", {
+ *   metadata: { ...props.metadata, version: "1.1" },
+ * });
+ * ```
+ */
+export async function updateFrontmatter(
+  skillDir: string,
+  patch: FrontmatterPatch,
+): Promise<void> {
+  const skillMd = await findSkillMd(skillDir);
+  if (skillMd === null) {
+    throw new ParseError(`SKILL.md not found in ${skillDir}`);
+  }
+  const content = await fs.readFile(skillMd, "utf-8");
+  const updated = patchFrontmatter(content, patch);
+  if (updated !== content) {
+    await fs.writeFile(skillMd, updated);
+  }
+}
+
+/** Write skill properties to a skill's SKILL.md.
+ *
+ * Updates an existing SKILL.md in place with updateFrontmatter(), removing
+ * optional spec fields that `properties` leaves unset; the body and any
+ * non-spec keys are kept. Otherwise creates the directory and a SKILL.md
+ * with an empty body.
+ *
+ * @param skillDir - Path to the skill directory
+ * @param properties - Properties to write
+ * @throws ParseError If an existing SKILL.md has invalid frontmatter
+ */
+export async function writeProperties(
+  skillDir: string,
+  properties: SkillProperties,
+): Promise<void> {
+  const skillMd = await findSkillMd(skillDir);
+  if (skillMd === null) {
+    await fs.mkdir(skillDir, { recursive: true });
+    await fs.writeFile(
+      path.join(skillDir, "SKILL.md"),
+      `---\n${serializeFrontmatter(properties)}---\n`,
+    );
+    return;
+  }
+
+  const patch: FrontmatterPatch = Object.fromEntries(
+    OPTIONAL_FIELDS.map((field) => [field, undefined]),
+  );
+  await updateFrontmatter(skillDir, {
+    ...patch,
+    ...properties.toDict(),
+  });
+}
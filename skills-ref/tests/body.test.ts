@@ -0,0 +1,59 @@
+/** Tests for body module. */
+
+import { describe, expect, it } from "vitest";
+
+import { lintBody } from "../src/body.js";
+
+function codes(body: string, options = {}): string[] {
+  return lintBody(body, 5, options).map((d) => d.code);
+}
+
+describe("lintBody", () => {
+  it("clean body", () => {
+    expect(codes("# My Skill\n\nInstructions here.")).toEqual([]);
+  });
+
+  it("empty body", () => {
+    const diagnostics = lintBody("", 5);
+    expect(diagnostics.map((d) => d.code)).toEqual(["body-empty"]);
+    expect(diagnostics[0]!.severity).toBe("warning");
+    expect(diagnostics[0]!.range?.start.line).toBe(5);
+  });
+
+  it("too many lines", () => {
+    const body = ["# Title", ...Array(20).fill("line")].join("\n");
+    const diagnostics = lintBody(body, 5, { maxLines: 10 });
+    const tooLong = diagnostics.find((d) => d.code === "body-too-many-lines");
+    expect(tooLong?.message).toContain("21 lines");
+    // First line past the limit: body line 11 starts at file line 5
+    expect(tooLong?.range?.start.line).toBe(15);
+    expect(codes(body)).toEqual([]);
+  });
+
+  it("too many tokens", () => {
+    const body = `# Title\n\n${"word ".repeat(100)}`;
+    expect(codes(body, { maxTokens: 50 })).toEqual(["body-too-many-tokens"]);
+  });
+
+  it("unclosed code fence", () => {
+    const body = "# Title\n\n```bash\necho hi\n```\n\n~~~\nnever closed";
+    const diagnostics = lintBody(body, 5);
+    expect(diagnostics.map((d) => d.code)).toEqual([
+      "body-unclosed-code-fence",
+    ]);
+    expect(diagnostics[0]!.range?.start.line).toBe(11);
+  });
+
+  it("closing fence must match the opening marker", () => {
+    expect(codes("# Title\n\n````\n```\n````")).toEqual([]);
+    expect(codes("# Title\n\n````\n```")).toEqual(["body-unclosed-code-fence"]);
+  });
+
+  it("missing heading", () => {
+    expect(codes("## Only a subheading")).toEqual(["body-missing-heading"]);
+  });
+
+  it("headings inside code fences do not count", () => {
+    expect(codes("```\n# comment\n```")).toEqual(["body-missing-heading"]);
+  });
+});
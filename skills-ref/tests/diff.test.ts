@@ -0,0 +1,55 @@
+/** Tests for diff module. */
+
+import { describe, expect, it } from "vitest";
+
+import { unifiedDiff } from "../src/diff.js";
+
+describe("unifiedDiff", () => {
+  it("returns an empty string for identical content", () => {
+    expect(unifiedDiff("a\nb\n", "a\nb\n")).toBe("");
+  });
+
+  it("formats changes like diff -u", () => {
+    expect(
+      unifiedDiff("a\nb\nc\n", "a\nB\nc\nd", { fromFile: "x", toFile: "y" }),
+    ).toBe(
+      [
+        "--- x",
+        "+++ y",
+        "@@ -1,3 +1,4 @@",
+        " a",
+        "-b",
+        "+B",
+        " c",
+        "+d",
+        "\\ No newline at end of file",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("uses an empty range for a file that was empty", () => {
+    expect(unifiedDiff("", "a\nb\n")).toBe(
+      "--- a\n+++ a\n@@ -0,0 +1,2 @@\n+a\n+b\n",
+    );
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const after = [...before];
+    after[1] = "changed 2";
+    after[17] = "changed 18";
+    const diff = unifiedDiff(before.join("\n") + "\n", after.join("\n") + "\n");
+    expect(diff.match(/^@@.*@@$/gm)).toEqual([
+      "@@ -1,5 +1,5 @@",
+      "@@ -15,6 +15,6 @@",
+    ]);
+  });
+
+  it("limits context to the given number of lines", () => {
+    const diff = unifiedDiff("a\nb\nc\nd\ne\n", "a\nb\nC\nd\ne\n", {
+      context: 1,
+    });
+    expect(diff).toBe("--- a\n+++ a\n@@ -2,3 +2,3 @@\n b\n-c\n+C\n d\n");
+  });
+});
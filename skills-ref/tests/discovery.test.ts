@@ -0,0 +1,161 @@
+/** Tests for discovery module. */
+
+import { describe, expect, it, vi } from "vitest";
+import { promises as nodeFs } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+
+import { discoverSkills } from "../src/discovery.js";
+
+const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-discovery");
+
+async function createTempSkill(
+  relDir: string,
+  content: string,
+  fileName = "SKILL.md",
+): Promise<string> {
+  const skillDir = path.join(TEMP_DIR, relDir);
+  await fs.mkdir(skillDir, { recursive: true });
+  await fs.writeFile(path.join(skillDir, fileName), content);
+  return skillDir;
+}
+
+function skillContent(name: string): string {
+  return `---
+name: ${name}
+description: The ${name} skill
+---
+Body
+`;
+}
+
+describe("discoverSkills", () => {
+  beforeAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+    await createTempSkill("skills/skill-a", skillContent("skill-a"));
+    await createTempSkill(
+      "skills/nested/skill-b",
+      skillContent("skill-b"),
+      "skill.md",
+    );
+    await createTempSkill("skills/deep/er/still/skill-c", skillContent("c"));
+    await createTempSkill("skills/node_modules/dep-skill", skillContent("dep"));
+    await createTempSkill("skills/broken", "no frontmatter");
+    // Nested SKILL.md below a skill must not be reported separately
+    await createTempSkill("skills/skill-a/references/inner", skillContent("x"));
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  it("finds skills recursively", async () => {
+    const skills = await discoverSkills([path.join(TEMP_DIR, "skills")]);
+    const names = skills.map((s) => path.basename(s.path));
+    // Sorted by path: broken, deep/.../skill-c, nested/skill-b, skill-a
+    expect(names).toEqual(["broken", "skill-c", "skill-b", "skill-a"]);
+  });
+
+  it("accepts lowercase skill.md", async () => {
+    const skills = await discoverSkills([path.join(TEMP_DIR, "skills")]);
+    const skillB = skills.find((s) => s.properties?.name === "skill-b");
+    expect(skillB).toBeDefined();
+    expect(path.basename(skillB!.location)).toBe("skill.md");
+  });
+
+  it("reports parse errors", async () => {
+    const skills = await discoverSkills([path.join(TEMP_DIR, "skills")]);
+    const broken = skills.find((s) => path.basename(s.path) === "broken");
+    expect(broken?.properties).toBeUndefined();
+    expect(broken?.error?.message).toContain("must start with YAML");
+  });
+
+  it("respects max depth", async () => {
+    const skills = await discoverSkills([path.join(TEMP_DIR, "skills")], {
+      maxDepth: 1,
+    });
+    const names = skills.map((s) => path.basename(s.path));
+    expect(names).toEqual(["broken", "skill-a"]);
+  });
+
+  it("respects ignore globs", async () => {
+    const skills = await discoverSkills([path.join(TEMP_DIR, "skills")], {
+      ignore: ["deep/**", "broken"],
+    });
+    const names = skills.map((s) => path.basename(s.path));
+    expect(names).toContain("dep-skill");
+    expect(names).not.toContain("skill-c");
+    expect(names).not.toContain("broken");
+  });
+
+  it("skips directories it cannot read", async () => {
+    const unreadable = path.join(TEMP_DIR, "skills", "deep");
+    const readdir = nodeFs.readdir;
+    const spy = vi
+      .spyOn(nodeFs, "readdir")
+      .mockImplementation((dir, ...rest) =>
+        dir === unreadable
+          ? Promise.reject(
+              Object.assign(new Error("EACCES"), { code: "EACCES" }),
+            )
+          : (readdir as (...args: unknown[]) => Promise<unknown>)(dir, ...rest),
+      );
+    try {
+      const skills = await discoverSkills([path.join(TEMP_DIR, "skills")]);
+      const names = skills.map((s) => path.basename(s.path));
+      expect(names).toEqual(["broken", "skill-b", "skill-a"]);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("throws for a root it cannot read", async () => {
+    const root = path.join(TEMP_DIR, "skills");
+    const readdir = nodeFs.readdir;
+    const spy = vi
+      .spyOn(nodeFs, "readdir")
+      .mockImplementation((dir, ...rest) =>
+        dir === root
+          ? Promise.reject(
+              Object.assign(new Error("EACCES"), { code: "EACCES" }),
+            )
+          : (readdir as (...args: unknown[]) => Promise<unknown>)(dir, ...rest),
+      );
+    try {
+      await expect(discoverSkills([root])).rejects.toThrow(
+        `Cannot read directory: ${root}`,
+      );
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it("treats root as a skill", async () => {
+    const skills = await discoverSkills([
+      path.join(TEMP_DIR, "skills", "skill-a"),
+    ]);
+    expect(skills.length).toBe(1);
+    expect(skills[0]!.properties?.name).toBe("skill-a");
+  });
+
+  it("skips symlinks unless followed", async () => {
+    const linkRoot = path.join(TEMP_DIR, "links");
+    await fs.mkdir(linkRoot, { recursive: true });
+    await fs.symlink(
+      path.join(TEMP_DIR, "skills", "skill-a"),
+      path.join(linkRoot, "linked"),
+      "dir",
+    );
+
+    expect(await discoverSkills([linkRoot])).toEqual([]);
+    const followed = await discoverSkills([linkRoot], { followSymlinks: true });
+    expect(followed.map((s) => s.properties?.name)).toEqual(["skill-a"]);
+  });
+
+  it("rejects missing roots", async () => {
+    await expect(
+      discoverSkills([path.join(TEMP_DIR, "nonexistent")]),
+    ).rejects.toThrow("does not exist");
+  });
+});
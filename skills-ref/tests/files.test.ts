@@ -0,0 +1,127 @@
+/** Tests for files module. */
+
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+
+import { ResourceError } from "../src/errors.js";
+import { createSkillFileServer, type SkillFileServer } from "../src/files.js";
+import { SkillRegistry } from "../src/registry.js";
+
+const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-files");
+const SKILL_DIR = path.join(TEMP_DIR, "skills", "pdf-reader");
+
+describe("createSkillFileServer", () => {
+  let server: SkillFileServer;
+
+  beforeAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+    await fs.mkdir(path.join(SKILL_DIR, "references"), { recursive: true });
+    await fs.mkdir(path.join(SKILL_DIR, "assets"), { recursive: true });
+    await fs.writeFile(
+      path.join(SKILL_DIR, "SKILL.md"),
+      `---
+name: pdf-reader
+description: Read PDF files
+---
+See [forms](references/FORMS.md).
+`,
+    );
+    await fs.writeFile(
+      path.join(SKILL_DIR, "references/FORMS.md"),
+      "# Forms\n",
+    );
+    await fs.writeFile(
+      path.join(SKILL_DIR, "assets/logo.png"),
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]),
+    );
+    await fs.writeFile(path.join(SKILL_DIR, "assets/big.txt"), "x".repeat(200));
+    await fs.writeFile(path.join(TEMP_DIR, "secret.txt"), "secret");
+    await fs.symlink(
+      path.join(TEMP_DIR, "secret.txt"),
+      path.join(SKILL_DIR, "references/escape.md"),
+    );
+    await fs.symlink(
+      path.join(SKILL_DIR, "references/FORMS.md"),
+      path.join(SKILL_DIR, "references/alias.md"),
+    );
+
+    server = await createSkillFileServer([SKILL_DIR], { maxBytes: 100 });
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  it("lists skills and their files", async () => {
+    expect(server.skills()).toEqual(["pdf-reader"]);
+    expect(await server.listFiles("pdf-reader")).toEqual([
+      "SKILL.md",
+      "assets/big.txt",
+      "assets/logo.png",
+      "references/FORMS.md",
+    ]);
+  });
+
+  it("reads text files", async () => {
+    const file = await server.readFile("pdf-reader", "./references//FORMS.md");
+    expect(file).toEqual({
+      skill: "pdf-reader",
+      path: "references/FORMS.md",
+      mimeType: "text/markdown",
+      size: 8,
+      binary: false,
+      content: "# Forms\n",
+      encoding: "utf-8",
+    });
+  });
+
+  it("reads binary files as base64", async () => {
+    const file = await server.readFile("pdf-reader", "assets/logo.png");
+    expect(file.binary).toBe(true);
+    expect(file.mimeType).toBe("image/png");
+    expect(file.encoding).toBe("base64");
+    expect(Buffer.from(file.content, "base64")).toEqual(
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]),
+    );
+  });
+
+  it("follows symlinks that stay inside the skill", async () => {
+    const file = await server.readFile("pdf-reader", "references/alias.md");
+    expect(file.content).toBe("# Forms\n");
+  });
+
+  it.each([
+    ["../secret.txt", /traversal/],
+    ["references/../../secret.txt", /traversal/],
+    ["..\\secret.txt", /traversal/],
+    ["/etc/passwd", /Absolute/],
+    ["C:\\Windows\\win.ini", /Absolute/],
+    ["references/escape.md", /outside skill/],
+    ["references/missing.md", /not found/],
+    ["references", /not a file/],
+    ["assets/big.txt", /byte limit/],
+    ["", /required/],
+  ])("rejects %s", async (relPath, message) => {
+    await expect(server.readFile("pdf-reader", relPath)).rejects.toThrow(
+      message,
+    );
+  });
+
+  it("rejects unknown skills", async () => {
+    await expect(server.readFile("nope", "SKILL.md")).rejects.toBeInstanceOf(
+      ResourceError,
+    );
+  });
+
+  it("serves skills from a registry", async () => {
+    const registry = await new SkillRegistry([
+      path.join(TEMP_DIR, "skills"),
+    ]).load();
+    const fromRegistry = await createSkillFileServer(registry);
+    expect(fromRegistry.skills()).toEqual(["pdf-reader"]);
+    const file = await fromRegistry.readFile("pdf-reader", "SKILL.md");
+    expect(file.content).toContain("name: pdf-reader");
+  });
+});
@@ -0,0 +1,253 @@
+/** Tests for fixer module. */
+
+import { describe, expect, it, vi } from "vitest";
+import { promises as nodeFs } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+
+import { fixSkill, fixSkillMd } from "../src/fixer.js";
+import { validateSkill } from "../src/validator.js";
+
+const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-fixer");
+
+describe("fixSkillMd", () => {
+  it("normalizes the name, keeping quotes and comments", () => {
+    const { content, fixes } = fixSkillMd(`---
+name: "My_Skill-"  # shown in menus
+description: A test skill
+---
+# Body
+`);
+    expect(content).toBe(`---
+name: "my-skill"  # shown in menus
+description: A test skill
+---
+# Body
+`);
+    expect(fixes).toEqual([
+      {
+        codes: [
+          "name-uppercase",
+          "name-hyphen-boundary",
+          "name-invalid-characters",
+        ],
+        message: "Renamed skill 'My_Skill-' to 'my-skill'",
+      },
+    ]);
+  });
+
+  it("collapses consecutive hyphens", () => {
+    const { content } = fixSkillMd(
+      "---\nname: my--skill\ndescription: A test skill\n---\nBody\n",
+    );
+    expect(content).toContain("name: my-skill\n");
+  });
+
+  it("takes a missing name from the directory", () => {
+    const { content, fixes } = fixSkillMd(
+      "---\ndescription: A test skill\n---\nBody\n",
+      "my-skill",
+    );
+    expect(content).toBe(
+      "---\nname: my-skill\ndescription: A test skill\n---\nBody\n",
+    );
+    expect(fixes[0]!.codes).toEqual(["name-missing"]);
+  });
+
+  it("leaves a missing name if the directory name is invalid", () => {
+    const { fixes } = fixSkillMd(
+      "---\ndescription: A test skill\n---\nBody\n",
+      "My Skill",
+    );
+    expect(fixes).toEqual([]);
+  });
+
+  it("moves unknown keys into an existing metadata block", () => {
+    const { content, fixes } = fixSkillMd(`---
+name: my-skill
+author: someone
+description: A test skill
+metadata:
+    # owners
+    team: infra
+version: 1.10
+---
+Body
+`);
+    expect(content).toBe(`---
+name: my-skill
+description: A test skill
+metadata:
+    # owners
+    team: infra
+    author: someone
+    version: '1.10'
+---
+Body
+`);
+    expect(fixes).toEqual([
+      {
+        codes: ["unexpected-fields"],
+        message: "Moved 'author', 'version' under metadata",
+      },
+    ]);
+  });
+
+  it("creates a metadata block when there is none", () => {
+    const { content } = fixSkillMd(
+      "---\nname: my-skill\ndescription: A test skill\nbeta: true\n---\nBody\n",
+    );
+    expect(content).toBe(
+      "---\nname: my-skill\ndescription: A test skill\nmetadata:\n  beta: 'true'\n---\nBody\n",
+    );
+  });
+
+  it("rewrites flow-style metadata", () => {
+    const { content } = fixSkillMd(
+      "---\nname: my-skill\ndescription: A test skill\nmetadata: {team: infra}\nowner: me\n---\nBody\n",
+    );
+    expect(content).toBe(
+      "---\nname: my-skill\ndescription: A test skill\nmetadata:\n  team: infra\n  owner: me\n---\nBody\n",
+    );
+  });
+
+  it("leaves keys it cannot move safely", () => {
+    const original = `---
+name: my-skill
+description: A test skill
+metadata:
+  owner: someone
+owner: someone-else
+tags: [a, b]
+---
+Body
+`;
+    const { content, fixes } = fixSkillMd(original);
+    expect(content).toBe(original);
+    expect(fixes).toEqual([]);
+  });
+
+  it("keeps CRLF line endings", () => {
+    const { content } = fixSkillMd(
+      "---\r\nname: My-Skill\r\ndescription: A test skill\r\nowner: me\r\n---\r\nBody\r\n",
+    );
+    expect(content).toBe(
+      "---\r\nname: my-skill\r\ndescription: A test skill\r\nmetadata:\r\n  owner: me\r\n---\r\nBody\r\n",
+    );
+  });
+
+  it("returns valid skills unchanged", () => {
+    const original =
+      "---\nname: my-skill\ndescription: A test skill\n---\nBody\n";
+    expect(fixSkillMd(original)).toEqual({ content: original, fixes: [] });
+  });
+});
+
+describe("fixSkill", () => {
+  beforeEach(async () => {
+    await fs.mkdir(path.join(TEMP_DIR, "Old_Name"), { recursive: true });
+    await fs.writeFile(
+      path.join(TEMP_DIR, "Old_Name", "SKILL.md"),
+      "---\nname: Data-Tools\ndescription: A test skill\n---\n# Body\n",
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  it("writes fixes without renaming by default", async () => {
+    const skillDir = path.join(TEMP_DIR, "Old_Name");
+    const result = await fixSkill(skillDir);
+    expect(result.skillDir).toBe(skillDir);
+    expect(result.fixes).toHaveLength(1);
+    expect(
+      await fs.readFile(path.join(skillDir, "SKILL.md"), "utf-8"),
+    ).toContain("name: data-tools");
+
+    const validation = await validateSkill(skillDir);
+    expect(validation.diagnostics.map((d) => d.code)).toEqual([
+      "name-directory-mismatch",
+    ]);
+  });
+
+  it("renames the directory to match the name", async () => {
+    const result = await fixSkill(path.join(TEMP_DIR, "Old_Name"), {
+      renameDir: true,
+    });
+    expect(result.skillDir).toBe(path.join(TEMP_DIR, "data-tools"));
+    expect(result.fixes.map((f) => f.message)).toEqual([
+      "Renamed skill 'Data-Tools' to 'data-tools'",
+      "Renamed directory 'Old_Name' to 'data-tools'",
+    ]);
+    expect((await validateSkill(result.skillDir)).valid).toBe(true);
+    expect(await fs.readdir(TEMP_DIR)).toEqual(["data-tools"]);
+  });
+
+  it("resolves the directory before renaming it", async () => {
+    const result = await fixSkill(`${TEMP_DIR}/Old_Name/.`, {
+      renameDir: true,
+    });
+    expect(result.skillDir).toBe(path.join(TEMP_DIR, "data-tools"));
+    expect(await fs.readdir(TEMP_DIR)).toEqual(["data-tools"]);
+  });
+
+  it("leaves SKILL.md untouched when the rename fails", async () => {
+    const skillMd = path.join(TEMP_DIR, "Old_Name", "SKILL.md");
+    const before = await fs.readFile(skillMd, "utf-8");
+    const spy = vi
+      .spyOn(nodeFs, "rename")
+      .mockRejectedValue(Object.assign(new Error("EBUSY"), { code: "EBUSY" }));
+    try {
+      await expect(
+        fixSkill(path.join(TEMP_DIR, "Old_Name"), { renameDir: true }),
+      ).rejects.toThrow("EBUSY");
+    } finally {
+      spy.mockRestore();
+    }
+    expect(await fs.readFile(skillMd, "utf-8")).toBe(before);
+  });
+
+  it("does not rename onto an existing directory", async () => {
+    await fs.mkdir(path.join(TEMP_DIR, "data-tools"));
+    const result = await fixSkill(path.join(TEMP_DIR, "Old_Name"), {
+      renameDir: true,
+    });
+    expect(result.skillDir).toBe(path.join(TEMP_DIR, "Old_Name"));
+    expect(result.fixes).toHaveLength(1);
+  });
+
+  it("only reports a diff in a dry run", async () => {
+    const skillMd = path.join(TEMP_DIR, "Old_Name", "SKILL.md");
+    const result = await fixSkill(path.join(TEMP_DIR, "Old_Name"), {
+      renameDir: true,
+      dryRun: true,
+    });
+    expect(result.diff).toBe(
+      [
+        `--- ${skillMd}`,
+        `+++ ${path.join(TEMP_DIR, "data-tools", "SKILL.md")}`,
+        "@@ -1,5 +1,5 @@",
+        " ---",
+        "-name: Data-Tools",
+        "+name: data-tools",
+        " description: A test skill",
+        " ---",
+        " # Body",
+        "",
+      ].join("\n"),
+    );
+    expect(await fs.readFile(skillMd, "utf-8")).toContain("name: Data-Tools");
+    expect(await fs.readdir(TEMP_DIR)).toEqual(["Old_Name"]);
+  });
+
+  it("leaves skills without SKILL.md alone", async () => {
+    const result = await fixSkill(path.join(TEMP_DIR, "missing"));
+    expect(result).toEqual({
+      skillDir: path.join(TEMP_DIR, "missing"),
+      fixes: [],
+      diff: "",
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/** Tests for format module. */
+
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+
+import { ParseError } from "../src/errors.js";
+import { formatSkill, formatSkillMd } from "../src/format.js";
+import { parseSkillMd } from "../src/parser.js";
+
+const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-format");
+
+const FORMATTED = `---
+name: my-skill
+description: 'Use when: reading PDFs'
+license: MIT
+metadata:
+  author: someone
+---
+
+# My Skill
+
+Body text.
+`;
+
+describe("formatSkillMd", () => {
+  it("leaves canonical content unchanged", () => {
+    expect(formatSkillMd(FORMATTED)).toBe(FORMATTED);
+  });
+
+  it("orders fields as in the spec, with other keys last", () => {
+    const content = `---
+extra: x
+metadata:
+  author: someone
+license: MIT
+description: "Use when: reading PDFs"
+name: my-skill
+---
+Body
+`;
+    expect(formatSkillMd(content)).toBe(`---
+name: my-skill
+description: 'Use when: reading PDFs'
+license: MIT
+metadata:
+  author: someone
+extra: x
+---
+
+Body
+`);
+  });
+
+  it("normalizes line endings and blank lines around the body", () => {
+    const content = FORMATTED.replace(/\n/g, "\r\n").replace(
+      "---\r\n\r\n#",
+      "---\r\n\r\n \r\n\r\n#",
+    );
+    expect(formatSkillMd(content + "\r\n  \r\n")).toBe(FORMATTED);
+  });
+
+  it("keeps the indentation of the body", () => {
+    const content = `---
+name: my-skill
+description: A test skill
+---
+
+    npm install
+
+Body
+`;
+    expect(formatSkillMd(content)).toBe(content);
+  });
+
+  it("drops a byte order mark and blank lines before the frontmatter", () => {
+    expect(formatSkillMd("\uFEFF\n" + FORMATTED)).toBe(FORMATTED);
+  });
+
+  it("unfolds descriptions and normalizes quoting", () => {
+    const content = `---
+name: "my-skill"
+description: >
+  Use when:
+  reading PDFs
+license: 'MIT'
+metadata: {author: "someone"}
+---
+# My Skill
+
+Body text.
+`;
+    expect(formatSkillMd(content)).toBe(FORMATTED);
+  });
+
+  it("keeps full-line comments with the entry below them", () => {
+    const content = `---
+# Header comment
+license: MIT
+# The skill's name
+name: my-skill
+description: A test skill
+# Trailing comment
+---
+Body
+`;
+    expect(formatSkillMd(content)).toBe(`---
+# Header comment
+# The skill's name
+name: my-skill
+description: A test skill
+license: MIT
+# Trailing comment
+---
+
+Body
+`);
+  });
+
+  it("keeps entries with comments inside them as written", () => {
+    const content = `---
+description: "A test skill" # shown to agents
+name: my-skill
+metadata:
+  # Owning team
+  author: someone
+  version: "1.0"  # bump on release
+---
+Body
+`;
+    const formatted = formatSkillMd(content);
+    expect(formatted).toBe(`---
+name: my-skill
+description: "A test skill" # shown to agents
+metadata:
+  # Owning team
+  author: someone
+  version: "1.0"  # bump on release
+---
+
+Body
+`);
+    expect(formatSkillMd(formatted)).toBe(formatted);
+  });
+
+  it("keeps entries whose values would read differently", () => {
+    const content = `---
+released: 2024-01-01
+description: "A test skill"
+name: my-skill
+metadata:
+  version: 1.10
+  octal: 0o17
+  author: "someone"
+---
+Body
+`;
+    const formatted = formatSkillMd(content);
+    expect(formatted).toBe(`---
+name: my-skill
+description: A test skill
+metadata:
+  version: 1.10
+  octal: 0o17
+  author: "someone"
+released: 2024-01-01
+---
+
+Body
+`);
+    expect(formatSkillMd(formatted)).toBe(formatted);
+  });
+
+  it("writes frontmatter only when the body is empty", () => {
+    expect(
+      formatSkillMd("---\nname: my-skill\ndescription: A test skill\n---\n\n"),
+    ).toBe("---\nname: my-skill\ndescription: A test skill\n---\n");
+  });
+
+  it("is idempotent and keeps parsed values", () => {
+    const content = `---
+description: |
+  Line one
+  line two
+name: my-skill
+metadata:
+  version: "1.0"
+  beta: "true"
+---
+Body
+`;
+    const formatted = formatSkillMd(content);
+    expect(formatSkillMd(formatted)).toBe(formatted);
+    expect(parseSkillMd(formatted).metadata).toEqual({
+      ...parseSkillMd(content).metadata,
+      description: "Line one\nline two",
+    });
+  });
+
+  it("throws ParseError for invalid frontmatter", () => {
+    expect(() => formatSkillMd("no frontmatter")).toThrow(ParseError);
+  });
+});
+
+describe("formatSkill", () => {
+  const skillDir = path.join(TEMP_DIR, "my-skill");
+  const skillMd = path.join(skillDir, "SKILL.md");
+  const unformatted = FORMATTED.replace("\n\n# My Skill", "\n# My Skill");
+
+  beforeEach(async () => {
+    await fs.mkdir(skillDir, { recursive: true });
+    await fs.writeFile(skillMd, unformatted);
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  it("rewrites SKILL.md in place", async () => {
+    const result = await formatSkill(skillDir);
+    expect(result.file).toBe(skillMd);
+    expect(result.changed).toBe(true);
+    expect(await fs.readFile(skillMd, "utf-8")).toBe(FORMATTED);
+
+    expect((await formatSkill(skillDir)).changed).toBe(false);
+  });
+
+  it("only reports a diff in check mode", async () => {
+    const result = await formatSkill(skillDir, { check: true });
+    expect(result.changed).toBe(true);
+    expect(result.diff).toContain("@@ -5,6 +5,7 @@");
+    expect(await fs.readFile(skillMd, "utf-8")).toBe(unformatted);
+  });
+
+  it("throws ParseError without SKILL.md", async () => {
+    await expect(
+      formatSkill(path.join(TEMP_DIR, "missing")),
+    ).rejects.toBeInstanceOf(ParseError);
+  });
+});
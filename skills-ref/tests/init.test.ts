@@ -0,0 +1,102 @@
+/** Tests for init module. */
+
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+
+import { SkillError, ValidationError } from "../src/errors.js";
+import { DEFAULT_DESCRIPTION, initSkill } from "../src/init.js";
+import { readProperties } from "../src/parser.js";
+
+const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-init");
+
+describe("initSkill", () => {
+  beforeEach(async () => {
+    await fs.mkdir(TEMP_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  it("creates a valid skeleton named after the skill", async () => {
+    const result = await initSkill("pdf-reader", { parentDir: TEMP_DIR });
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics).toEqual([]);
+    expect(result.skillDir).toBe(path.join(TEMP_DIR, "pdf-reader"));
+
+    const props = await readProperties(result.skillDir);
+    expect(props.name).toBe("pdf-reader");
+    expect(props.description).toBe(DEFAULT_DESCRIPTION);
+    const content = await fs.readFile(
+      path.join(result.skillDir, "SKILL.md"),
+      "utf-8",
+    );
+    expect(content).toContain("# Pdf Reader");
+    expect(await fs.readdir(result.skillDir)).toEqual(["SKILL.md"]);
+  });
+
+  it("writes description, license and metadata", async () => {
+    const result = await initSkill("data-tools", {
+      parentDir: TEMP_DIR,
+      description: "Clean and summarize CSV files",
+      license: "Apache-2.0",
+      metadata: { author: "example-org", version: "1.0" },
+    });
+    expect(result.valid).toBe(true);
+
+    const props = await readProperties(result.skillDir);
+    expect(props.description).toBe("Clean and summarize CSV files");
+    expect(props.license).toBe("Apache-2.0");
+    expect(props.metadata).toEqual({ author: "example-org", version: "1.0" });
+  });
+
+  it("creates resource directories with starter files", async () => {
+    const result = await initSkill("with-resources", {
+      parentDir: TEMP_DIR,
+      resources: true,
+    });
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics).toEqual([]);
+
+    for (const file of [
+      "scripts/example.sh",
+      "references/REFERENCE.md",
+      "assets/README.md",
+    ]) {
+      await expect(
+        fs.access(path.join(result.skillDir, file)),
+      ).resolves.toBeUndefined();
+    }
+    const content = await fs.readFile(
+      path.join(result.skillDir, "SKILL.md"),
+      "utf-8",
+    );
+    expect(content).toContain("references/REFERENCE.md");
+  });
+
+  it("refuses invalid names without creating anything", async () => {
+    await expect(
+      initSkill("Bad_Name", { parentDir: TEMP_DIR }),
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(await fs.readdir(TEMP_DIR)).toEqual([]);
+  });
+
+  it("refuses an overlong description", async () => {
+    await expect(
+      initSkill("long-desc", {
+        parentDir: TEMP_DIR,
+        description: "x".repeat(1025),
+      }),
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it("refuses an existing directory", async () => {
+    await fs.mkdir(path.join(TEMP_DIR, "taken"));
+    await expect(
+      initSkill("taken", { parentDir: TEMP_DIR }),
+    ).rejects.toBeInstanceOf(SkillError);
+    expect(await fs.readdir(path.join(TEMP_DIR, "taken"))).toEqual([]);
+  });
+});
@@ -0,0 +1,70 @@
+/** Tests for match module. */
+
+import { describe, expect, it } from "vitest";
+
+import { matchSkills } from "../src/match.js";
+import { SkillProperties } from "../src/models.js";
+
+const SKILLS = [
+  new SkillProperties(
+    "pdf-reader",
+    "Extract text and tables from PDF files and fill in PDF forms",
+  ),
+  new SkillProperties(
+    "git-helper",
+    "Create commits, resolve merge conflicts and manage branches",
+  ),
+  new SkillProperties(
+    "spreadsheet",
+    "Read and write Excel spreadsheets, including formulas and tables",
+  ),
+];
+
+describe("matchSkills", () => {
+  it("ranks the most relevant skill first", () => {
+    const matches = matchSkills("How do I extract a table from a PDF?", SKILLS);
+    expect(matches[0]!.skill.name).toBe("pdf-reader");
+    expect(matches[0]!.matchedTerms).toEqual(["extract", "table", "pdf"]);
+    expect(matches.map((m) => m.skill.name)).toEqual([
+      "pdf-reader",
+      "spreadsheet",
+    ]);
+    expect(matches[0]!.score).toBeGreaterThan(matches[1]!.score);
+  });
+
+  it("matches inflected words through stemming", () => {
+    const matches = matchSkills("resolving conflicting merges", SKILLS);
+    expect(matches.map((m) => m.skill.name)).toEqual(["git-helper"]);
+    expect(matches[0]!.matchedTerms).toEqual([
+      "resolving",
+      "conflicting",
+      "merges",
+    ]);
+  });
+
+  it("ignores stopwords", () => {
+    expect(matchSkills("and the with from", SKILLS)).toEqual([]);
+  });
+
+  it("weights names above descriptions", () => {
+    const skills = [
+      new SkillProperties("notes", "Keep git history tidy"),
+      new SkillProperties("git", "Keep notes tidy"),
+    ];
+    expect(matchSkills("git", skills)[0]!.skill.name).toBe("git");
+  });
+
+  it("limits results", () => {
+    expect(matchSkills("tables", SKILLS, { topK: 1 })).toHaveLength(1);
+    expect(matchSkills("tables", SKILLS, { minScore: 100 })).toEqual([]);
+  });
+
+  it("accepts objects holding properties", () => {
+    const entries = SKILLS.map((properties) => ({
+      properties,
+      location: `/skills/${properties.name}/SKILL.md`,
+    }));
+    const [match] = matchSkills("spreadsheet formulas", entries);
+    expect(match!.skill.location).toBe("/skills/spreadsheet/SKILL.md");
+  });
+});
@@ -0,0 +1,187 @@
+/** Tests for mcp module. */
+
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+import { PassThrough } from "node:stream";
+
+import { type JsonRpcResponse, McpSkillServer } from "../src/mcp.js";
+import { SkillRegistry } from "../src/registry.js";
+
+const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-mcp");
+
+async function createTempSkill(name: string, body: string): Promise<string> {
+  const skillDir = path.join(TEMP_DIR, name);
+  await fs.mkdir(path.join(skillDir, "references"), { recursive: true });
+  await fs.writeFile(
+    path.join(skillDir, "SKILL.md"),
+    `---
+name: ${name}
+description: The ${name} skill
+---
+${body}
+`,
+  );
+  return skillDir;
+}
+
+/** Minimal stdio client: sends requests and waits for matching responses. */
+class TestClient {
+  private readonly input = new PassThrough();
+  private readonly output = new PassThrough();
+  private buffer = "";
+  private nextId = 1;
+  private readonly waiting = new Map<
+    number | string | null,
+    (response: JsonRpcResponse) => void
+  >();
+  readonly done: Promise<void>;
+
+  constructor(server: McpSkillServer) {
+    this.output.on("data", (chunk: Buffer) => {
+      this.buffer += chunk.toString();
+      let newline: number;
+      while ((newline = this.buffer.indexOf("\n")) !== -1) {
+        const response = JSON.parse(this.buffer.slice(0, newline));
+        this.buffer = this.buffer.slice(newline + 1);
+        this.waiting.get(response.id)?.(response);
+        this.waiting.delete(response.id);
+      }
+    });
+    this.done = server.listen(this.input, this.output);
+  }
+
+  request(method: string, params?: unknown): Promise<JsonRpcResponse> {
+    const id = this.nextId++;
+    return this.send(
+      id,
+      JSON.stringify({ jsonrpc: "2.0", id, method, params }),
+    );
+  }
+
+  send(id: number | null, line: string): Promise<JsonRpcResponse> {
+    const response = new Promise<JsonRpcResponse>((resolve) =>
+      this.waiting.set(id, resolve),
+    );
+    this.input.write(line + "\n");
+    return response;
+  }
+
+  notify(method: string): void {
+    this.input.write(JSON.stringify({ jsonrpc: "2.0", method }) + "\n");
+  }
+
+  close(): Promise<void> {
+    this.input.end();
+    return this.done;
+  }
+}
+
+describe("McpSkillServer", () => {
+  let client: TestClient;
+
+  beforeAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+    const pdf = await createTempSkill("pdf-reader", "# PDF\nRead PDFs.");
+    await fs.writeFile(path.join(pdf, "references/FORMS.md"), "# Forms\n");
+    await createTempSkill("git", "# Git");
+    const registry = await new SkillRegistry([TEMP_DIR]).load();
+    client = new TestClient(await McpSkillServer.create(registry));
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  it("initializes", async () => {
+    const response = await client.request("initialize", {
+      protocolVersion: "2025-03-26",
+      capabilities: {},
+      clientInfo: { name: "test", version: "1.0.0" },
+    });
+    client.notify("notifications/initialized");
+    expect(response.result).toMatchObject({
+      protocolVersion: "2025-03-26",
+      capabilities: { resources: {}, tools: {} },
+      serverInfo: { name: "skills-ref" },
+    });
+  });
+
+  it("lists skills as resources", async () => {
+    const response = await client.request("resources/list");
+    expect(response.result).toEqual({
+      resources: [
+        {
+          uri: "skill://git/SKILL.md",
+          name: "git",
+          description: "The git skill",
+          mimeType: "text/markdown",
+        },
+        {
+          uri: "skill://pdf-reader/SKILL.md",
+          name: "pdf-reader",
+          description: "The pdf-reader skill",
+          mimeType: "text/markdown",
+        },
+      ],
+    });
+  });
+
+  it("reads bundled files", async () => {
+    const uri = "skill://pdf-reader/references/FORMS.md";
+    const response = await client.request("resources/read", { uri });
+    expect(response.result).toEqual({
+      contents: [{ uri, mimeType: "text/markdown", text: "# Forms\n" }],
+    });
+  });
+
+  it("rejects reads outside the skill", async () => {
+    const response = await client.request("resources/read", {
+      uri: "skill://pdf-reader/../git/SKILL.md",
+    });
+    expect(response.error?.code).toBe(-32002);
+    expect(response.error?.message).toMatch(/traversal/);
+  });
+
+  it("lists the activation tool", async () => {
+    const response = await client.request("tools/list");
+    const { tools } = response.result as {
+      tools: { name: string; inputSchema: { properties: object } }[];
+    };
+    expect(tools.map((tool) => tool.name)).toEqual(["activate_skill"]);
+    expect(tools[0]!.inputSchema.properties).toEqual({
+      name: {
+        type: "string",
+        enum: ["git", "pdf-reader"],
+        description: "Name of the skill to activate",
+      },
+    });
+  });
+
+  it("activates a skill", async () => {
+    const response = await client.request("tools/call", {
+      name: "activate_skill",
+      arguments: { name: "pdf-reader" },
+    });
+    const { content } = response.result as { content: { text: string }[] };
+    expect(content[0]!.text).toContain("# PDF\nRead PDFs.");
+    expect(content[0]!.text).toContain(
+      "- skill://pdf-reader/references/FORMS.md",
+    );
+  });
+
+  it("reports unknown skills as tool errors", async () => {
+    const response = await client.request("tools/call", {
+      name: "activate_skill",
+      arguments: { name: "nope" },
+    });
+    expect(response.result).toMatchObject({ isError: true });
+  });
+
+  it("reports protocol errors", async () => {
+    expect((await client.request("nope/nope")).error?.code).toBe(-32601);
+    expect((await client.send(null, "{not json")).error?.code).toBe(-32700);
+  });
+});
@@ -5,11 +5,13 @@ import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import { tmpdir } from "node:os";
 
+import { ParseError, ValidationError } from "../src/errors.js";
 import {
   findSkillMd,
   parseFrontmatter,
+  parseSkillMd,
   readProperties,
-} from "../src/skills-ref/parser.js";
+} from "../src/parser.js";
 
 const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-parser");
 
@@ -78,6 +80,184 @@ Body
   });
 });
 
+describe("parseSkillMd", () => {
+  it("records field and body positions", () => {
+    const content = `---
+name: my-skill
+description: >
+  A folded
+  description
+# trailing comment
+---
+
+# My Skill
+`;
+    const parsed = parseSkillMd(content);
+    expect(parsed.fieldRanges.name).toEqual({
+      start: { line: 2, column: 1 },
+      end: { line: 2, column: 15 },
+    });
+    expect(parsed.fieldRanges.description).toEqual({
+      start: { line: 3, column: 1 },
+      end: { line: 5, column: 14 },
+    });
+    expect(parsed.frontmatterRange.start).toEqual({ line: 1, column: 1 });
+    expect(parsed.frontmatterRange.end).toEqual({ line: 7, column: 4 });
+    expect(parsed.bodyStartLine).toBe(9);
+  });
+
+  it("invalid yaml has a position", () => {
+    const content = `---
+name: my-skill
+description: [broken
+---
+Body
+`;
+    try {
+      parseSkillMd(content);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(ParseError);
+      expect((e as ParseError).range?.start.line).toBe(4);
+    }
+  });
+
+  it("missing frontmatter points at start", () => {
+    try {
+      parseSkillMd("# No frontmatter");
+      expect.unreachable();
+    } catch (e) {
+      expect((e as ParseError).range?.start).toEqual({ line: 1, column: 1 });
+    }
+  });
+});
+
+describe("frontmatter scanning", () => {
+  function parseError(content: string): ParseError {
+    try {
+      parseSkillMd(content);
+    } catch (e) {
+      expect(e).toBeInstanceOf(ParseError);
+      return e as ParseError;
+    }
+    return expect.unreachable();
+  }
+
+  it("only treats a line of --- as a delimiter", () => {
+    const parsed = parseSkillMd(`---
+name: my-skill
+description: Before --- after
+metadata:
+  rule: "---"
+---
+Body --- text
+---
+More
+`);
+    expect(parsed.metadata.description).toBe("Before --- after");
+    expect(parsed.metadata.metadata).toEqual({ rule: "---" });
+    expect(parsed.body).toBe("Body --- text\n---\nMore");
+    expect(parsed.frontmatterRange.end).toEqual({ line: 6, column: 4 });
+  });
+
+  it("accepts a byte order mark and CRLF line endings", () => {
+    const parsed = parseSkillMd(
+      "\uFEFF---\r\nname: my-skill\r\ndescription: A test skill\r\n---\r\n" +
+        "# Title\r\nBody\r\n",
+    );
+    expect(parsed.metadata).toEqual({
+      name: "my-skill",
+      description: "A test skill",
+    });
+    expect(parsed.body).toBe("# Title\nBody");
+    expect(parsed.fieldRanges.name).toEqual({
+      start: { line: 2, column: 1 },
+      end: { line: 2, column: 15 },
+    });
+  });
+
+  it("skips blank lines before the frontmatter", () => {
+    const parsed = parseSkillMd("\n\n---\nname: my-skill\n---\nBody\n");
+    expect(parsed.metadata.name).toBe("my-skill");
+    expect(parsed.frontmatterRange.start).toEqual({ line: 3, column: 1 });
+    expect(parsed.bodyStartLine).toBe(6);
+  });
+
+  it("does not accept an indented delimiter", () => {
+    expect(parseError("  ---\nname: my-skill\n---\n").message).toContain(
+      "must start with YAML frontmatter",
+    );
+  });
+
+  it("reports duplicate keys", () => {
+    const error = parseError(`---
+name: my-skill
+description: A test skill
+name: other-skill
+---
+`);
+    expect(error.code).toBe("frontmatter-duplicate-key");
+    expect(error.message).toBe("Duplicate key 'name' in frontmatter");
+    expect(error.range).toEqual({
+      start: { line: 4, column: 1 },
+      end: { line: 4, column: 5 },
+    });
+  });
+
+  it("reports duplicate keys in nested mappings", () => {
+    const error = parseError(`---
+name: my-skill
+metadata:
+  version: "1.0"
+  version: "2.0"
+---
+`);
+    expect(error.code).toBe("frontmatter-duplicate-key");
+    expect(error.range?.start).toEqual({ line: 5, column: 3 });
+  });
+
+  it("rejects anchors, aliases and tags", () => {
+    const anchor = parseError(
+      "---\nname: &name my-skill\ndescription: *name\n---\n",
+    );
+    expect(anchor.code).toBe("frontmatter-anchor");
+    expect(anchor.message).toContain("'&name'");
+    expect(anchor.range).toEqual({
+      start: { line: 2, column: 7 },
+      end: { line: 2, column: 12 },
+    });
+
+    const alias = parseError("---\nname: my-skill\ndescription: *bold*\n---\n");
+    expect(alias.code).toBe("frontmatter-alias");
+    expect(alias.range?.start).toEqual({ line: 3, column: 14 });
+
+    const tag = parseError(
+      "---\nname: my-skill\nmetadata: {version: !!float 1.0}\n---\n",
+    );
+    expect(tag.code).toBe("frontmatter-tag");
+    expect(tag.message).toContain("'!!float'");
+    expect(tag.range?.start).toEqual({ line: 3, column: 21 });
+  });
+
+  it("allows &, * and ! inside values", () => {
+    const parsed = parseSkillMd(`---
+name: my-skill
+description: Q&A for *starred* items!
+compatibility: "*nix only"
+license: >
+  !important
+  &more
+metadata:
+  note: 'it''s &fine'
+  list: [a, "*b"]
+---
+`);
+    expect(parsed.metadata.description).toBe("Q&A for *starred* items!");
+    expect(parsed.metadata.compatibility).toBe("*nix only");
+    expect(parsed.metadata.license).toBe("!important &more\n");
+  });
+});
+
 describe("readProperties", () => {
   beforeAll(async () => {
     await createTempDir();
@@ -121,6 +301,42 @@ Body
     expect(props.metadata).toEqual({ author: "Test Author", version: "1.0" });
   });
 
+  it("read with typed metadata", async () => {
+    const skillDir = await createTempSkill(
+      "my-skill-typed",
+      `---
+name: my-skill
+description: A test skill
+metadata:
+  version: 2
+  beta: true
+  released: 2024-05-01
+  tags: [pdf, documents]
+  client:
+    theme: dark
+---
+Body
+`,
+    );
+    const props = await readProperties(skillDir);
+    expect(props.metadata.tags).toBe("pdf,documents");
+    expect(props.metadata.released).toBe("2024-05-01T00:00:00.000Z");
+    expect(props.getMetadata("tags")).toBe("pdf,documents");
+
+    const typed = await readProperties(skillDir, { typedMetadata: true });
+    expect(typed.typedMetadata).toEqual({
+      version: 2,
+      beta: true,
+      released: "2024-05-01T00:00:00.000Z",
+      tags: ["pdf", "documents"],
+      client: { theme: "dark" },
+    });
+    expect(typed.metadata.version).toBe("2");
+    expect(typed.getMetadata("client")).toEqual({ theme: "dark" });
+    expect(typed.getMetadata("toString")).toBeUndefined();
+    expect(typed.toDict().metadata).toEqual(typed.typedMetadata);
+  });
+
   it("missing skill md", async () => {
     const emptyDir = path.join(TEMP_DIR, "empty-skill");
     await fs.mkdir(emptyDir, { recursive: true });
@@ -156,6 +372,23 @@ Body
       "Missing required field in frontmatter: description",
     );
   });
+
+  it("validation error carries diagnostics", async () => {
+    const skillDir = await createTempSkill(
+      "my-skill-5",
+      `---
+name: ""
+description: A test skill
+---
+Body
+`,
+    );
+    const error = await readProperties(skillDir).catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.errors[0].code).toBe("name-empty");
+    expect(error.errors[0].field).toBe("name");
+    expect(error.messages).toEqual(["Field 'name' must be a non-empty string"]);
+  });
 });
 
 describe("findSkillMd", () => {
@@ -0,0 +1,115 @@
+/** Tests for permissions module. */
+
+import { describe, expect, it } from "vitest";
+
+import {
+  isToolInvocationAllowed,
+  parseAllowedTools,
+} from "../src/permissions.js";
+
+describe("parseAllowedTools", () => {
+  it("parses names and patterns", () => {
+    const { entries, diagnostics } = parseAllowedTools(
+      "Bash(git log:*)  Read, mcp__github__*",
+    );
+    expect(diagnostics).toEqual([]);
+    expect(entries).toEqual([
+      { tool: "Bash", pattern: "git log:*", raw: "Bash(git log:*)", column: 1 },
+      { tool: "Read", pattern: undefined, raw: "Read", column: 18 },
+      {
+        tool: "mcp__github__*",
+        pattern: undefined,
+        raw: "mcp__github__*",
+        column: 24,
+      },
+    ]);
+  });
+
+  it("keeps nested parentheses in patterns", () => {
+    const { entries } = parseAllowedTools("Bash(echo (a b))");
+    expect(entries[0]!.pattern).toBe("echo (a b)");
+  });
+
+  it.each([
+    ["Bash)", "allowed-tools-unbalanced-parens"],
+    ["Bash(a)b", "allowed-tools-trailing-text"],
+    ["Bash(a)(b)", "allowed-tools-trailing-text"],
+    ["9lives", "allowed-tools-invalid-name"],
+    ["(git)", "allowed-tools-invalid-name"],
+  ])("rejects %s", (value, code) => {
+    const { entries, diagnostics } = parseAllowedTools(`${value} Read`);
+    expect(diagnostics.map((d) => d.code)).toEqual([code]);
+    expect(diagnostics[0]!.severity).toBe("error");
+    expect(entries.map((e) => e.raw)).toEqual(["Read"]);
+  });
+
+  it("reports an unclosed parenthesis once", () => {
+    const { entries, diagnostics } = parseAllowedTools("Read Bash(git:* Write");
+    expect(diagnostics.map((d) => d.code)).toEqual([
+      "allowed-tools-unbalanced-parens",
+    ]);
+    expect(entries.map((e) => e.raw)).toEqual(["Read"]);
+  });
+
+  it("warns about empty patterns and duplicates", () => {
+    const { entries, diagnostics } = parseAllowedTools("Bash() Read Read");
+    expect(diagnostics.map((d) => [d.code, d.severity])).toEqual([
+      ["allowed-tools-empty-pattern", "warning"],
+      ["allowed-tools-duplicate", "warning"],
+    ]);
+    expect(entries.map((e) => e.raw)).toEqual(["Bash()", "Read"]);
+  });
+});
+
+describe("isToolInvocationAllowed", () => {
+  const allowed =
+    "Bash(git:*) Bash(npm run *) Read Write(docs/*.md) mcp__gh__*";
+
+  it.each([
+    ["Bash", "git", true],
+    ["Bash", "git status --short", true],
+    ["Bash", "gitk", false],
+    ["Bash", "rm -rf /", false],
+    ["Bash", "npm run test -- src/a.ts", true],
+    ["Bash", "npm install", false],
+    ["Bash", undefined, false],
+    ["Read", "/etc/passwd", true],
+    ["Read", undefined, true],
+    ["Write", "docs/guide/intro.md", true],
+    ["Write", "src/index.ts", false],
+    ["mcp__gh__create_issue", undefined, true],
+    ["Edit", "docs/a.md", false],
+  ])("%s %s -> %s", (tool, args, expected) => {
+    expect(isToolInvocationAllowed(allowed, tool, args)).toBe(expected);
+  });
+
+  it("accepts parsed entries", () => {
+    const { entries } = parseAllowedTools("Bash(jq:*)");
+    expect(isToolInvocationAllowed(entries, "Bash", "jq .name")).toBe(true);
+  });
+
+  it.each([
+    "git status && rm -rf ~",
+    "git status; rm -rf ~",
+    "git log | sh",
+    "git log `rm -rf ~`",
+    "git log $(rm -rf ~)",
+    "git status\nrm -rf ~",
+  ])("rejects chained command %j", (args) => {
+    expect(isToolInvocationAllowed(allowed, "Bash", args)).toBe(false);
+  });
+
+  it.each([
+    "git log > ~/.bashrc",
+    "git log >> ~/.bashrc",
+    "git apply < /tmp/patch",
+    "git diff <(cat /etc/passwd)",
+    "git log --output >(sh)",
+  ])("rejects redirection %j", (args) => {
+    expect(isToolInvocationAllowed(allowed, "Bash", args)).toBe(false);
+  });
+
+  it("matches patterns literally apart from wildcards", () => {
+    expect(isToolInvocationAllowed("Read(a.b)", "Read", "axb")).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+/** Tests for policy module. */
+
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+
+import { PolicyError } from "../src/errors.js";
+import {
+  checkPolicy,
+  checkSkillPolicy,
+  loadPolicy,
+  parsePolicy,
+  type ToolPolicy,
+} from "../src/policy.js";
+
+const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-policy");
+
+const POLICY: ToolPolicy = {
+  deny: ["Bash", "Write(/*)", "Write(../*)"],
+  review: ["mcp__*", "Bash(curl *)"],
+  requireCompatibility: ["Bash(*)"],
+};
+
+function codes(allowedTools: string, compatibility?: string): string[] {
+  const metadata: Record<string, unknown> = { "allowed-tools": allowedTools };
+  if (compatibility !== undefined) {
+    metadata.compatibility = compatibility;
+  }
+  return checkPolicy(metadata, POLICY).map((d) => d.code);
+}
+
+describe("checkPolicy", () => {
+  it("denies unrestricted tools", () => {
+    expect(codes("Bash Read", "Needs bash")).toEqual(["policy-denied-tool"]);
+    expect(codes("Bash(*)", "Needs bash")).toEqual(["policy-denied-tool"]);
+  });
+
+  it("allows restricted tools outside the deny rules", () => {
+    expect(codes("Bash(git:*) Write(docs/*)", "Needs git")).toEqual([]);
+  });
+
+  it("denies writes outside the workspace", () => {
+    expect(codes("Write(/etc/hosts)")).toEqual(["policy-denied-tool"]);
+    expect(codes("Write(../secrets/*)")).toEqual(["policy-denied-tool"]);
+  });
+
+  it("denies wildcard entries that cover a denied tool", () => {
+    expect(codes("*", "Needs all")).toEqual(["policy-denied-tool"]);
+    expect(codes("Bas*", "Needs bash")).toEqual(["policy-denied-tool"]);
+    expect(codes("W*(/etc/x)")).toEqual(["policy-denied-tool"]);
+    expect(codes("Write(*.md)")).toEqual(["policy-denied-tool"]);
+    expect(codes("Bash(cu*)", "Needs curl")).toEqual([
+      "policy-review-required",
+    ]);
+    expect(codes("Bas*(git:*) Wri*e(docs/*)", "Needs git")).toEqual([]);
+  });
+
+  it("reports allowed-tools values it cannot check", () => {
+    for (const allowedTools of [["Bash"], "Bash( Read"]) {
+      const diagnostics = checkPolicy(
+        { "allowed-tools": allowedTools },
+        POLICY,
+      );
+      expect(diagnostics.map((d) => d.code)).toContain(
+        "policy-invalid-allowed-tools",
+      );
+      expect(diagnostics[0]!.severity).toBe("error");
+    }
+  });
+
+  it("flags tools needing review", () => {
+    const diagnostics = checkPolicy(
+      { "allowed-tools": "mcp__github__create_issue" },
+      POLICY,
+    );
+    expect(diagnostics).toEqual([
+      {
+        code: "policy-review-required",
+        severity: "warning",
+        field: "allowed-tools",
+        message:
+          "Pre-approving 'mcp__github__create_issue' needs review under policy rule 'mcp__*'",
+      },
+    ]);
+  });
+
+  it("requires compatibility for matching tools", () => {
+    expect(codes("Bash(git:*)")).toEqual(["policy-compatibility-required"]);
+    expect(codes("Read")).toEqual([]);
+    expect(
+      checkPolicy({ name: "x" }, { requireCompatibility: true }).map(
+        (d) => d.code,
+      ),
+    ).toEqual(["policy-compatibility-required"]);
+  });
+});
+
+describe("parsePolicy", () => {
+  it("parses YAML and JSON", () => {
+    expect(parsePolicy("deny: [Bash]\nrequireCompatibility: true\n")).toEqual({
+      deny: ["Bash"],
+      requireCompatibility: true,
+    });
+    expect(parsePolicy('{"review": ["WebFetch"]}')).toEqual({
+      review: ["WebFetch"],
+    });
+    expect(parsePolicy("")).toEqual({});
+  });
+
+  it.each([
+    ["- Bash", /mapping/],
+    ["deny: Bash", /list of strings/],
+    ["deny: [Bash(]", /Invalid rule/],
+    ["allow: [Read]", /Unknown policy key 'allow'/],
+    ["deny: [", /Invalid YAML/],
+  ])("rejects %s", (content, message) => {
+    expect(() => parsePolicy(content)).toThrow(PolicyError);
+    expect(() => parsePolicy(content)).toThrow(message);
+  });
+});
+
+describe("checkSkillPolicy", () => {
+  beforeAll(async () => {
+    await fs.mkdir(path.join(TEMP_DIR, "risky"), { recursive: true });
+    await fs.writeFile(
+      path.join(TEMP_DIR, "risky", "SKILL.md"),
+      `---
+name: risky
+description: Does risky things
+allowed-tools: Read Bash
+---
+Body
+`,
+    );
+    await fs.writeFile(path.join(TEMP_DIR, "policy.yaml"), "deny: [Bash]\n");
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  it("locates violations in SKILL.md", async () => {
+    const policy = await loadPolicy(path.join(TEMP_DIR, "policy.yaml"));
+    const result = await checkSkillPolicy(path.join(TEMP_DIR, "risky"), policy);
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]!.file).toBe(
+      path.join(TEMP_DIR, "risky", "SKILL.md"),
+    );
+    expect(result.diagnostics[0]!.range?.start.line).toBe(4);
+  });
+
+  it("reports missing policy files", async () => {
+    await expect(
+      loadPolicy(path.join(TEMP_DIR, "missing.yaml")),
+    ).rejects.toThrow(PolicyError);
+  });
+});
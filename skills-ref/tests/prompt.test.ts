@@ -5,7 +5,14 @@ import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import { tmpdir } from "node:os";
 
-import { toPrompt } from "../src/skills-ref/prompt.js";
+import {
+  formatPrompt,
+  renderPrompt,
+  renderTemplate,
+  toPrompt,
+  type PromptSkill,
+} from "../src/prompt.js";
+import { SkillProperties } from "../src/models.js";
 
 const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-prompt");
 
@@ -100,3 +107,187 @@ Body
     expect(result).not.toContain("<bar>");
   });
 });
+
+describe("formatPrompt", () => {
+  const skills: PromptSkill[] = [
+    {
+      properties: new SkillProperties(
+        "pdf-reader",
+        "Read <PDF> files",
+        "MIT",
+        "Requires poppler",
+      ),
+      location: "/skills/pdf-reader/SKILL.md",
+    },
+    {
+      properties: new SkillProperties("git", "Work with\ngit repos"),
+      location: "/skills/git/SKILL.md",
+    },
+  ];
+
+  it("xml with optional fields", () => {
+    const result = formatPrompt(skills, { fields: ["license"] });
+    expect(result).toContain("<license>\nMIT\n</license>");
+    expect(result).not.toContain("<compatibility>");
+    expect(result.match(/<license>/g)?.length).toBe(1);
+  });
+
+  it("json", () => {
+    const result = JSON.parse(
+      formatPrompt(skills, { format: "json", fields: ["compatibility"] }),
+    );
+    expect(result.skills).toEqual([
+      {
+        name: "pdf-reader",
+        description: "Read <PDF> files",
+        compatibility: "Requires poppler",
+        location: "/skills/pdf-reader/SKILL.md",
+      },
+      {
+        name: "git",
+        description: "Work with\ngit repos",
+        location: "/skills/git/SKILL.md",
+      },
+    ]);
+  });
+
+  it("markdown", () => {
+    const result = formatPrompt(skills, { format: "markdown" });
+    expect(result).toBe(
+      [
+        "## Available skills",
+        "",
+        "- **pdf-reader**: Read <PDF> files",
+        "  - Location: `/skills/pdf-reader/SKILL.md`",
+        "- **git**: Work with\ngit repos",
+        "  - Location: `/skills/git/SKILL.md`",
+      ].join("\n"),
+    );
+  });
+
+  it("text without location", () => {
+    const result = formatPrompt(skills, {
+      format: "text",
+      includeLocation: false,
+      fields: ["license"],
+    });
+    expect(result).toBe(
+      "pdf-reader: Read <PDF> files (license: MIT)\ngit: Work with git repos",
+    );
+  });
+
+  it("custom template", () => {
+    const template =
+      "{{#skills}}{{name}}{{#license}} ({{license}}){{/license}};{{/skills}}{{^skills}}none{{/skills}}";
+    expect(formatPrompt(skills, { template, fields: ["license"] })).toBe(
+      "pdf-reader (MIT);git;",
+    );
+    expect(formatPrompt([], { template })).toBe("none");
+  });
+});
+
+describe("renderTemplate", () => {
+  it("does not expand tags inside substituted values", () => {
+    expect(renderTemplate("{{a}} {{b}}", { a: "{{b}}", b: "x" })).toBe(
+      "{{b}} x",
+    );
+  });
+
+  it("resolves keys in outer context from list items", () => {
+    expect(
+      renderTemplate("{{#items}}{{prefix}}{{.}} {{/items}}", {
+        prefix: "-",
+        items: ["a", "b"],
+      }),
+    ).toBe("-a -b ");
+  });
+});
+
+describe("renderPrompt", () => {
+  const long = "Handles files in many useful ways ".repeat(6).trim();
+  const skills: PromptSkill[] = ["delta", "alpha", "charlie", "bravo"].map(
+    (name, index) => ({
+      properties: new SkillProperties(
+        name,
+        `${name}: ${long}`,
+        undefined,
+        undefined,
+        undefined,
+        { priority: String(4 - index) },
+      ),
+      location: `/skills/${name}/SKILL.md`,
+    }),
+  );
+  const textOptions = { format: "text", includeLocation: false } as const;
+
+  it("leaves prompts within budget untouched", () => {
+    const result = renderPrompt(skills, {
+      ...textOptions,
+      budget: { maxChars: 10_000 },
+    });
+    expect(result.prompt).toBe(formatPrompt(skills, textOptions));
+    expect(result.omitted).toEqual([]);
+    expect(result.truncated).toEqual([]);
+  });
+
+  it("shortens descriptions before dropping skills", () => {
+    const full = formatPrompt(skills, textOptions);
+    const result = renderPrompt(skills, {
+      ...textOptions,
+      budget: { maxChars: full.length - 100 },
+    });
+    expect(result.prompt.length).toBeLessThanOrEqual(full.length - 100);
+    expect(result.omitted).toEqual([]);
+    expect(result.truncated.length).toBeGreaterThan(0);
+    expect(result.prompt).toContain("\u2026");
+  });
+
+  it("drops alphabetically last skills first", () => {
+    const result = renderPrompt(skills, {
+      ...textOptions,
+      budget: { maxChars: 200 },
+    });
+    expect(result.omitted).toEqual(["charlie", "delta"]);
+    expect(result.prompt.length).toBeLessThanOrEqual(200);
+    // Kept skills stay in input order
+    expect(result.prompt.indexOf("alpha:")).toBeLessThan(
+      result.prompt.indexOf("bravo:"),
+    );
+  });
+
+  it("honors explicit and metadata priorities", () => {
+    const byName = renderPrompt(skills, {
+      ...textOptions,
+      budget: {
+        maxChars: 200,
+        priority: { names: ["delta", "charlie"] },
+      },
+    });
+    expect(byName.omitted).toEqual(["alpha", "bravo"]);
+
+    const byMetadata = renderPrompt(skills, {
+      ...textOptions,
+      budget: { maxChars: 200, priority: { metadataKey: "priority" } },
+    });
+    expect(byMetadata.omitted).toEqual(["alpha", "delta"]);
+  });
+
+  it("drops skills without truncating when disabled", () => {
+    const result = renderPrompt(skills, {
+      ...textOptions,
+      budget: { maxTokens: 80, truncateDescriptions: false },
+    });
+    expect(result.truncated).toEqual([]);
+    expect(result.omitted.length).toBeGreaterThan(0);
+    expect(Math.ceil(result.prompt.length / 4)).toBeLessThanOrEqual(80);
+  });
+
+  it("exposes omitted skills to templates", () => {
+    const result = renderPrompt(skills, {
+      template: "{{#skills}}{{name}} {{/skills}}|{{#omitted}}x{{/omitted}}",
+      budget: { maxChars: 15, truncateDescriptions: false },
+    });
+    expect(result.prompt).toBe("alpha bravo |xx");
+    expect(result.omitted).toEqual(["charlie", "delta"]);
+  });
+});
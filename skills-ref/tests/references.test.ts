@@ -0,0 +1,157 @@
+/** Tests for references module. */
+
+import { describe, expect, it, vi } from "vitest";
+import { promises as nodeFs } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+
+import { checkReferences, extractReferences } from "../src/references.js";
+
+const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-references");
+
+async function writeFile(relPath: string, content: string): Promise<void> {
+  const filePath = path.join(TEMP_DIR, relPath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content);
+}
+
+describe("extractReferences", () => {
+  it("markdown links and bare paths", () => {
+    const refs =
+      extractReferences(`See [the guide](references/REFERENCE.md) for details.
+
+Run the extraction script:
+scripts/extract.py input.pdf`);
+    expect(refs).toEqual([
+      { target: "references/REFERENCE.md", kind: "link", line: 1, column: 17 },
+      { target: "scripts/extract.py", kind: "path", line: 4, column: 1 },
+    ]);
+  });
+
+  it("ignores urls and anchors", () => {
+    const refs = extractReferences(
+      "[site](https://example.com/scripts/run.sh) [top](#usage) [mail](mailto:a@b.c)",
+    );
+    expect(refs).toEqual([]);
+  });
+
+  it("strips fragments, titles and angle brackets", () => {
+    const refs = extractReferences(
+      '[a](references/A.md#section "Title") ![img](<assets/my%20image.png>)',
+    );
+    expect(refs.map((r) => r.target)).toEqual([
+      "references/A.md",
+      "assets/my image.png",
+    ]);
+  });
+
+  it("drops trailing punctuation from bare paths", () => {
+    const refs = extractReferences("Use `scripts/run.sh`, then assets/x.json.");
+    expect(refs.map((r) => r.target)).toEqual([
+      "scripts/run.sh",
+      "assets/x.json",
+    ]);
+  });
+});
+
+describe("checkReferences", () => {
+  beforeAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+    await writeFile("my-skill/scripts/extract.py", "print('hi')");
+    await writeFile("my-skill/references/REFERENCE.md", "# Reference");
+    await writeFile(
+      "my-skill/references/CHAINED.md",
+      "See [more](DEEPER.md) for details",
+    );
+    await writeFile("my-skill/references/DEEPER.md", "# Deeper");
+    await writeFile("my-skill/..notes.md", "# Notes");
+    await writeFile("outside.md", "# Outside");
+    await fs.symlink(
+      path.join(TEMP_DIR, "outside.md"),
+      path.join(TEMP_DIR, "my-skill", "linked.md"),
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  const skillDir = path.join(TEMP_DIR, "my-skill");
+
+  it("existing references are fine", async () => {
+    const diagnostics = await checkReferences(
+      skillDir,
+      "Read [ref](references/REFERENCE.md) and run scripts/extract.py",
+      5,
+    );
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("missing file", async () => {
+    const diagnostics = await checkReferences(
+      skillDir,
+      "# Title\n\nRun scripts/missing.py",
+      5,
+    );
+    expect(diagnostics.map((d) => d.code)).toEqual(["reference-missing"]);
+    expect(diagnostics[0]!.range).toEqual({
+      start: { line: 7, column: 5 },
+      end: { line: 7, column: 23 },
+    });
+  });
+
+  it("paths escaping the skill", async () => {
+    const diagnostics = await checkReferences(
+      skillDir,
+      "[out](../outside.md) [abs](/etc/passwd)",
+      1,
+    );
+    expect(diagnostics.map((d) => d.code)).toEqual([
+      "reference-outside-skill",
+      "reference-outside-skill",
+    ]);
+  });
+
+  it("names starting with .. stay inside", async () => {
+    expect(await checkReferences(skillDir, "[notes](..notes.md)", 1)).toEqual(
+      [],
+    );
+  });
+
+  it("symlinks leading outside the skill", async () => {
+    const diagnostics = await checkReferences(skillDir, "[l](linked.md)", 1);
+    expect(diagnostics.map((d) => d.code)).toEqual(["reference-outside-skill"]);
+    expect(diagnostics[0]!.message).toContain("resolves outside");
+  });
+
+  it("chained references", async () => {
+    const diagnostics = await checkReferences(
+      skillDir,
+      "[chain](references/CHAINED.md)",
+      1,
+    );
+    expect(diagnostics.map((d) => d.code)).toEqual([
+      "reference-chain-too-deep",
+    ]);
+    expect(diagnostics[0]!.severity).toBe("warning");
+  });
+
+  it("unreadable referenced files", async () => {
+    const spy = vi
+      .spyOn(nodeFs, "readFile")
+      .mockRejectedValue(
+        Object.assign(new Error("EACCES"), { code: "EACCES" }),
+      );
+    try {
+      const diagnostics = await checkReferences(
+        skillDir,
+        "[ref](references/REFERENCE.md)",
+        1,
+      );
+      expect(diagnostics.map((d) => d.code)).toEqual(["reference-unreadable"]);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,118 @@
+/** Tests for registry module. */
+
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+
+import { SkillRegistry } from "../src/registry.js";
+
+const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-registry");
+
+async function createTempSkill(
+  relDir: string,
+  name: string,
+  description = `The ${name} skill`,
+): Promise<string> {
+  const skillDir = path.join(TEMP_DIR, relDir);
+  await fs.mkdir(skillDir, { recursive: true });
+  await fs.writeFile(
+    path.join(skillDir, "SKILL.md"),
+    `---
+name: ${name}
+description: ${description}
+metadata:
+  team: ${relDir.split("/")[0]}
+---
+Body
+`,
+  );
+  return skillDir;
+}
+
+describe("SkillRegistry", () => {
+  beforeAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+    await createTempSkill("project/pdf", "pdf", "Project PDF skill");
+    await createTempSkill("user/pdf", "pdf", "User PDF skill");
+    await createTempSkill("user/git", "git");
+    await createTempSkill("org/jq", "jq");
+    await createTempSkill("org/a/jq", "jq");
+    await fs.mkdir(path.join(TEMP_DIR, "org/broken"), { recursive: true });
+    await fs.writeFile(path.join(TEMP_DIR, "org/broken/SKILL.md"), "oops");
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  async function loadRegistry(): Promise<SkillRegistry> {
+    return new SkillRegistry([
+      { path: path.join(TEMP_DIR, "project"), label: "project" },
+      { path: path.join(TEMP_DIR, "user"), label: "user" },
+      path.join(TEMP_DIR, "org"),
+    ]).load();
+  }
+
+  it("indexes skills by name with precedence", async () => {
+    const registry = await loadRegistry();
+    expect(registry.list().map((e) => e.name)).toEqual(["git", "jq", "pdf"]);
+    expect(registry.get("pdf")?.properties.description).toBe(
+      "Project PDF skill",
+    );
+    expect(registry.get("pdf")?.source).toBe("project");
+    expect(registry.has("git")).toBe(true);
+    expect(registry.get("missing")).toBeUndefined();
+  });
+
+  it("reports shadowing, duplicates and parse errors", async () => {
+    const registry = await loadRegistry();
+    const byCode = (code: string) =>
+      registry.diagnostics.filter((d) => d.code === code);
+
+    const shadowed = byCode("skill-shadowed");
+    expect(shadowed.length).toBe(1);
+    expect(shadowed[0]!.file).toBe(path.join(TEMP_DIR, "user/pdf/SKILL.md"));
+    expect(shadowed[0]!.message).toContain("shadowed by project");
+
+    const duplicates = byCode("duplicate-skill-name");
+    expect(duplicates.length).toBe(1);
+    expect(registry.get("jq")?.path).toBe(path.join(TEMP_DIR, "org/a/jq"));
+
+    expect(byCode("parse-error").length).toBe(1);
+  });
+
+  it("skips a missing source and loads the others", async () => {
+    const missing = path.join(TEMP_DIR, "missing");
+    const registry = await new SkillRegistry([
+      { path: missing, label: "missing" },
+      { path: path.join(TEMP_DIR, "user"), label: "user" },
+    ]).load();
+
+    expect(registry.list().map((e) => e.name)).toEqual(["git", "pdf"]);
+    const unavailable = registry.diagnostics.filter(
+      (d) => d.code === "source-unavailable",
+    );
+    expect(unavailable.length).toBe(1);
+    expect(unavailable[0]!.file).toBe(missing);
+    expect(unavailable[0]!.message).toContain("does not exist");
+  });
+
+  it("filters entries", async () => {
+    const registry = await loadRegistry();
+    const userSkills = registry.list((e) => e.source === "user");
+    expect(userSkills.map((e) => e.name)).toEqual(["git"]);
+    const orgSkills = registry.list(
+      (e) => e.properties.metadata.team === "org",
+    );
+    expect(orgSkills.map((e) => e.name)).toEqual(["jq"]);
+  });
+
+  it("feeds toPrompt", async () => {
+    const registry = await loadRegistry();
+    const prompt = await registry.toPrompt((e) => e.name !== "git");
+    expect(prompt.match(/<skill>/g)?.length).toBe(2);
+    expect(prompt).toContain("Project PDF skill");
+    expect(prompt).not.toContain("User PDF skill");
+  });
+});
@@ -0,0 +1,112 @@
+/** Tests for reporters module. */
+
+import { describe, expect, it } from "vitest";
+import * as path from "node:path";
+
+import { formatReport, summarize } from "../src/reporters.js";
+import { type SkillValidationResult } from "../src/validator.js";
+
+const CWD = path.resolve("/work");
+
+const RESULTS: SkillValidationResult[] = [
+  {
+    skillDir: path.join(CWD, "skills/good-skill"),
+    diagnostics: [],
+    valid: true,
+  },
+  {
+    skillDir: path.join(CWD, "skills/Bad"),
+    valid: false,
+    diagnostics: [
+      {
+        code: "name-uppercase",
+        severity: "error",
+        field: "name",
+        message: "Skill name 'Bad' must be lowercase",
+        file: path.join(CWD, "skills/Bad/SKILL.md"),
+        range: {
+          start: { line: 2, column: 1 },
+          end: { line: 2, column: 10 },
+        },
+      },
+      {
+        code: "body-too-long",
+        severity: "warning",
+        message: "Body has <many> lines",
+      },
+    ],
+  },
+];
+
+describe("summarize", () => {
+  it("counts skills and severities", () => {
+    expect(summarize(RESULTS)).toEqual({
+      total: 2,
+      valid: 1,
+      invalid: 1,
+      errors: 1,
+      warnings: 1,
+      infos: 0,
+    });
+  });
+});
+
+describe("formatReport", () => {
+  it("text", () => {
+    const report = formatReport(RESULTS, "text");
+    expect(report).toContain(`Valid skill: ${RESULTS[0]!.skillDir}`);
+    expect(report).toContain(
+      `${path.join(CWD, "skills/Bad/SKILL.md")}:2:1: error: Skill name 'Bad' must be lowercase [name-uppercase]`,
+    );
+  });
+
+  it("text table and totals for batches", () => {
+    const report = formatReport(RESULTS, "text");
+    expect(report).toMatch(/^STATUS\s+ERRORS\s+WARNINGS\s+SKILL$/m);
+    expect(report).toMatch(/^fail\s+1\s+1\s+.*Bad$/m);
+    expect(report).toContain(
+      "Total: 2 skills, 1 valid, 1 invalid (1 errors, 1 warnings)",
+    );
+    expect(formatReport(RESULTS.slice(0, 1), "text")).not.toContain("Total:");
+  });
+
+  it("json", () => {
+    const report = JSON.parse(formatReport(RESULTS, "json"));
+    expect(report.summary.invalid).toBe(1);
+    expect(report.results[1].diagnostics[0].code).toBe("name-uppercase");
+  });
+
+  it("sarif", () => {
+    const log = JSON.parse(formatReport(RESULTS, "sarif", { cwd: CWD }));
+    expect(log.version).toBe("2.1.0");
+    const run = log.runs[0];
+    expect(run.tool.driver.rules.map((r: { id: string }) => r.id)).toEqual([
+      "name-uppercase",
+      "body-too-long",
+    ]);
+    expect(run.results[0]).toMatchObject({
+      ruleId: "name-uppercase",
+      level: "error",
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: "skills/Bad/SKILL.md" },
+            region: { startLine: 2, startColumn: 1 },
+          },
+        },
+      ],
+    });
+    expect(run.results[1].level).toBe("warning");
+    expect(run.properties.summary.total).toBe(2);
+  });
+
+  it("junit", () => {
+    const report = formatReport(RESULTS, "junit");
+    expect(report).toContain(
+      '<testsuites name="skills-ref" tests="2" failures="1">',
+    );
+    expect(report.match(/<testcase /g)?.length).toBe(2);
+    expect(report.match(/<failure /g)?.length).toBe(1);
+    expect(report).toContain("Body has &lt;many&gt; lines");
+  });
+});
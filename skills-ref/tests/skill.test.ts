@@ -0,0 +1,141 @@
+/** Tests for skill module. */
+
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+
+import { ResourceError } from "../src/errors.js";
+import { loadSkill } from "../src/skill.js";
+
+const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-skill");
+
+async function writeFile(relPath: string, content: string): Promise<void> {
+  const filePath = path.join(TEMP_DIR, relPath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content);
+}
+
+describe("loadSkill", () => {
+  const skillDir = path.join(TEMP_DIR, "my-skill");
+
+  beforeAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+    await writeFile(
+      "my-skill/SKILL.md",
+      `---
+name: my-skill
+description: A test skill
+---
+# My Skill
+
+See references/REFERENCE.md
+`,
+    );
+    await writeFile("my-skill/references/REFERENCE.md", "# Reference");
+    await writeFile("my-skill/scripts/run.sh", "echo hi");
+    await writeFile("secret.txt", "outside");
+    await fs.mkdir(path.join(skillDir, "assets"), { recursive: true });
+    await fs.symlink(
+      path.join(TEMP_DIR, "secret.txt"),
+      path.join(skillDir, "assets", "link.txt"),
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  it("exposes properties immediately", async () => {
+    const skill = await loadSkill(skillDir);
+    expect(skill.name).toBe("my-skill");
+    expect(skill.properties.description).toBe("A test skill");
+    expect(skill.location).toBe(path.join(skillDir, "SKILL.md"));
+  });
+
+  it("loads and caches instructions", async () => {
+    const skill = await loadSkill(skillDir);
+    const instructions = await skill.getInstructions();
+    expect(instructions).toBe("# My Skill\n\nSee references/REFERENCE.md");
+
+    await writeFile("my-skill/SKILL.md", "changed on disk");
+    expect(await skill.getInstructions()).toBe(instructions);
+    await writeFile(
+      "my-skill/SKILL.md",
+      `---
+name: my-skill
+description: A test skill
+---
+# My Skill
+
+See references/REFERENCE.md
+`,
+    );
+  });
+
+  it("retries reads that failed", async () => {
+    const skill = await loadSkill(skillDir);
+    const skillMd = path.join(skillDir, "SKILL.md");
+    const reference = path.join(skillDir, "references", "REFERENCE.md");
+    await skill.listResources();
+
+    await fs.rename(skillMd, `${skillMd}.tmp`);
+    await fs.rename(reference, `${reference}.tmp`);
+    await expect(skill.getInstructions()).rejects.toThrow("ENOENT");
+    await expect(skill.readResource("references/REFERENCE.md")).rejects.toThrow(
+      "ENOENT",
+    );
+
+    await fs.rename(`${skillMd}.tmp`, skillMd);
+    await fs.rename(`${reference}.tmp`, reference);
+    expect(await skill.getInstructions()).toContain("# My Skill");
+    expect(await skill.readResource("references/REFERENCE.md")).toBe(
+      "# Reference",
+    );
+  });
+
+  it("lists and reads resources", async () => {
+    const skill = await loadSkill(skillDir);
+    expect(await skill.listResources()).toEqual([
+      "references/REFERENCE.md",
+      "scripts/run.sh",
+    ]);
+    expect(await skill.readResource("references/REFERENCE.md")).toBe(
+      "# Reference",
+    );
+    expect(await skill.readResource("./scripts/run.sh", "base64")).toBe(
+      Buffer.from("echo hi").toString("base64"),
+    );
+  });
+
+  it("rejects paths outside the resource directories", async () => {
+    const skill = await loadSkill(skillDir);
+    for (const relPath of [
+      "../secret.txt",
+      "references/../../secret.txt",
+      "SKILL.md",
+      "assets/link.txt",
+      path.join(TEMP_DIR, "secret.txt"),
+    ]) {
+      await expect(skill.readResource(relPath)).rejects.toThrow(ResourceError);
+    }
+  });
+
+  it("rejects resources swapped for outside symlinks after listing", async () => {
+    const skill = await loadSkill(skillDir);
+    const script = path.join(skillDir, "scripts", "run.sh");
+    await skill.listResources();
+
+    await fs.rename(script, `${script}.tmp`);
+    await fs.symlink(path.join(TEMP_DIR, "secret.txt"), script);
+    try {
+      await expect(skill.readResource("scripts/run.sh")).rejects.toThrow(
+        ResourceError,
+      );
+    } finally {
+      await fs.rm(script);
+      await fs.rename(`${script}.tmp`, script);
+    }
+    expect(await skill.readResource("scripts/run.sh")).toBe("echo hi");
+  });
+});
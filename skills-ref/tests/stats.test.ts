@@ -0,0 +1,114 @@
+/** Tests for stats module. */
+
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+
+import { formatPromptEntry } from "../src/prompt.js";
+import { readProperties } from "../src/parser.js";
+import { aggregateStats, formatStats, getSkillStats } from "../src/stats.js";
+
+const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-stats");
+
+async function writeFile(
+  relPath: string,
+  content: string | Buffer,
+): Promise<void> {
+  const filePath = path.join(TEMP_DIR, relPath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content);
+}
+
+describe("getSkillStats", () => {
+  const skillDir = path.join(TEMP_DIR, "my-skill");
+
+  beforeAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+    await writeFile(
+      "my-skill/SKILL.md",
+      `---
+name: my-skill
+description: A test skill
+---
+# My Skill
+
+Line two
+`,
+    );
+    await writeFile("my-skill/scripts/run.sh", "echo hello world");
+    await writeFile("my-skill/references/nested/GUIDE.md", "# Guide");
+    await writeFile("my-skill/assets/logo.png", Buffer.from([0x89, 0, 1, 2]));
+    await writeFile("my-skill/other/ignored.txt", "not a resource");
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  it("measures each disclosure level", async () => {
+    const stats = await getSkillStats(skillDir);
+    const entry = formatPromptEntry(
+      await readProperties(skillDir),
+      path.join(skillDir, "SKILL.md"),
+    );
+
+    expect(stats.name).toBe("my-skill");
+    expect(stats.metadata).toEqual({
+      chars: entry.length,
+      tokens: Math.ceil(entry.length / 4),
+    });
+    expect(stats.body).toEqual({ chars: 20, tokens: 5, lines: 3 });
+    expect(stats.resources).toEqual([
+      { path: "assets/logo.png", binary: true, chars: 4, tokens: 0 },
+      {
+        path: "references/nested/GUIDE.md",
+        binary: false,
+        chars: 7,
+        tokens: 2,
+      },
+      { path: "scripts/run.sh", binary: false, chars: 16, tokens: 4 },
+    ]);
+    expect(stats.totalTokens).toBe(stats.metadata.tokens + 5 + 2 + 4);
+  });
+
+  it("skips symlinked resource directories", async () => {
+    const linkedDir = path.join(TEMP_DIR, "linked-skill");
+    await writeFile("outside/passwd", "secret");
+    await writeFile(
+      "linked-skill/SKILL.md",
+      "---\nname: linked-skill\ndescription: A test skill\n---\nBody\n",
+    );
+    await fs.symlink(
+      path.join(TEMP_DIR, "outside"),
+      path.join(linkedDir, "scripts"),
+    );
+
+    expect((await getSkillStats(linkedDir)).resources).toEqual([]);
+  });
+
+  it("uses a custom tokenizer", async () => {
+    const stats = await getSkillStats(skillDir, {
+      tokenizer: (text) => text.split(/\s+/).filter(Boolean).length,
+    });
+    expect(stats.body.tokens).toBe(5);
+    expect(stats.resources[2]!.tokens).toBe(3);
+  });
+
+  it("aggregates across skills", async () => {
+    const stats = await getSkillStats(skillDir);
+    const total = aggregateStats([stats, stats]);
+    expect(total.skills).toBe(2);
+    expect(total.bodyTokens).toBe(10);
+    expect(total.resourceTokens).toBe(12);
+    expect(total.totalTokens).toBe(stats.totalTokens * 2);
+  });
+
+  it("formats a table", async () => {
+    const stats = await getSkillStats(skillDir);
+    const table = formatStats([stats, stats], true);
+    expect(table.split("\n")[0]).toMatch(/^SKILL\s+METADATA\s+BODY/);
+    expect(table).toContain("scripts/run.sh");
+    expect(table).toMatch(/TOTAL \(2 skills\)/);
+  });
+});
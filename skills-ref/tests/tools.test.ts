@@ -0,0 +1,142 @@
+/** Tests for tools module. */
+
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+
+import { SkillProperties } from "../src/models.js";
+import {
+  type AnthropicToolDefinition,
+  formatToolDefinitions,
+  type JsonSchemaToolDefinition,
+  type OpenAIToolDefinition,
+  toToolDefinitions,
+} from "../src/tools.js";
+
+const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-tools");
+
+async function createTempSkill(name: string, content: string): Promise<string> {
+  const skillDir = path.join(TEMP_DIR, name);
+  await fs.mkdir(skillDir, { recursive: true });
+  await fs.writeFile(path.join(skillDir, "SKILL.md"), content);
+  return skillDir;
+}
+
+const SKILLS = [
+  new SkillProperties("pdf-reader", "Read PDF files"),
+  new SkillProperties("git", "Work with git", undefined, "Requires git 2.40+"),
+];
+
+describe("formatToolDefinitions", () => {
+  it("single activation tool in anthropic shape", () => {
+    const [tool, ...rest] = formatToolDefinitions(
+      SKILLS,
+    ) as AnthropicToolDefinition[];
+    expect(rest).toEqual([]);
+    expect(tool!.name).toBe("activate_skill");
+    expect(tool!.description).toContain("- pdf-reader: Read PDF files");
+    expect(tool!.description).toContain("- git: Work with git");
+    expect(tool!.input_schema).toEqual({
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          enum: ["pdf-reader", "git"],
+          description: "Name of the skill to activate",
+        },
+      },
+      required: ["name"],
+    });
+  });
+
+  it("openai shape", () => {
+    const [tool] = formatToolDefinitions(SKILLS, {
+      provider: "openai",
+      toolName: "use skill",
+    }) as OpenAIToolDefinition[];
+    expect(tool!.type).toBe("function");
+    expect(tool!.function.name).toBe("use_skill");
+    expect(tool!.function.parameters.required).toEqual(["name"]);
+  });
+
+  it("json-schema shape", () => {
+    const [tool] = formatToolDefinitions(SKILLS, {
+      provider: "json-schema",
+    }) as JsonSchemaToolDefinition[];
+    expect(tool!.$schema).toBe("https://json-schema.org/draft/2020-12/schema");
+    expect(tool!.title).toBe("activate_skill");
+    expect(tool!.type).toBe("object");
+    expect(tool!.properties.name!.enum).toEqual(["pdf-reader", "git"]);
+  });
+
+  it("one tool per skill", () => {
+    const tools = formatToolDefinitions(SKILLS, {
+      mode: "per-skill",
+    }) as AnthropicToolDefinition[];
+    expect(tools.map((tool) => tool.name)).toEqual([
+      "skill_pdf-reader",
+      "skill_git",
+    ]);
+    expect(tools[0]!.description).toBe("Read PDF files");
+    expect(tools[1]!.description).toBe(
+      "Work with git\n\nCompatibility: Requires git 2.40+",
+    );
+    expect(tools[0]!.input_schema).toEqual({ type: "object", properties: {} });
+  });
+
+  it("keeps tool names distinct for names that clash once made safe", () => {
+    const tools = formatToolDefinitions(
+      [
+        new SkillProperties("数据", "Data"),
+        new SkillProperties("日志", "Logs"),
+        new SkillProperties("pdf-reader", "Read PDF files"),
+        new SkillProperties("pdf-reader", "Read PDF files again"),
+      ],
+      { mode: "per-skill" },
+    ) as AnthropicToolDefinition[];
+    const names = tools.map((tool) => tool.name);
+    expect(new Set(names).size).toBe(4);
+    expect(names[0]).toMatch(/^skill____[0-9a-f]{8}$/);
+    expect(names.every((name) => /^[a-zA-Z0-9_-]{1,64}$/.test(name))).toBe(
+      true,
+    );
+  });
+
+  it("emits no activation tool without skills", () => {
+    expect(formatToolDefinitions([])).toEqual([]);
+  });
+});
+
+describe("toToolDefinitions", () => {
+  beforeAll(async () => {
+    await fs.mkdir(TEMP_DIR, { recursive: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  it("reads skills from directories", async () => {
+    const skillDir = await createTempSkill(
+      "my-skill",
+      `---
+name: my-skill
+description: A test skill
+---
+Body
+`,
+    );
+    const tools = (await toToolDefinitions([skillDir], {
+      mode: "per-skill",
+      toolNamePrefix: "",
+    })) as AnthropicToolDefinition[];
+    expect(tools).toEqual([
+      {
+        name: "my-skill",
+        description: "A test skill",
+        input_schema: { type: "object", properties: {} },
+      },
+    ]);
+  });
+});
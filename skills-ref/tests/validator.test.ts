@@ -5,7 +5,12 @@ import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import { tmpdir } from "node:os";
 
-import { validate } from "../src/skills-ref/validator.js";
+import { toMessages } from "../src/diagnostics.js";
+import {
+  validate,
+  validateMetadata,
+  validateSkills,
+} from "../src/validator.js";
 
 const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-validator");
 
@@ -47,7 +52,8 @@ description: A test skill
   it("nonexistent path", async () => {
     const errors = await validate(path.join(TEMP_DIR, "nonexistent"));
     expect(errors.length).toBe(1);
-    expect(errors[0]).toContain("does not exist");
+    expect(errors[0]!.code).toBe("path-not-found");
+    expect(errors[0]!.message).toContain("does not exist");
   });
 
   it("not a directory", async () => {
@@ -55,7 +61,8 @@ description: A test skill
     await fs.writeFile(filePath, "test");
     const errors = await validate(filePath);
     expect(errors.length).toBe(1);
-    expect(errors[0]).toContain("Not a directory");
+    expect(errors[0]!.code).toBe("not-a-directory");
+    expect(errors[0]!.message).toContain("Not a directory");
   });
 
   it("missing skill md", async () => {
@@ -63,7 +70,8 @@ description: A test skill
     await fs.mkdir(skillDir, { recursive: true });
     const errors = await validate(skillDir);
     expect(errors.length).toBe(1);
-    expect(errors[0]).toContain("Missing required file: SKILL.md");
+    expect(errors[0]!.code).toBe("skill-md-missing");
+    expect(errors[0]!.message).toContain("Missing required file: SKILL.md");
   });
 
   it("invalid name uppercase", async () => {
@@ -77,7 +85,7 @@ Body
 `,
     );
     const errors = await validate(skillDir);
-    expect(errors.some((e) => e.includes("lowercase"))).toBe(true);
+    expect(errors.some((e) => e.code === "name-uppercase")).toBe(true);
   });
 
   it("name too long", async () => {
@@ -92,11 +100,7 @@ Body
 `,
     );
     const errors = await validate(skillDir);
-    expect(
-      errors.some(
-        (e) => e.includes("exceeds") && e.includes("character limit"),
-      ),
-    ).toBe(true);
+    expect(errors.some((e) => e.code === "name-too-long")).toBe(true);
   });
 
   it("name leading hyphen", async () => {
@@ -110,9 +114,7 @@ Body
 `,
     );
     const errors = await validate(skillDir);
-    expect(
-      errors.some((e) => e.includes("cannot start or end with a hyphen")),
-    ).toBe(true);
+    expect(errors.some((e) => e.code === "name-hyphen-boundary")).toBe(true);
   });
 
   it("name consecutive hyphens", async () => {
@@ -126,7 +128,9 @@ Body
 `,
     );
     const errors = await validate(skillDir);
-    expect(errors.some((e) => e.includes("consecutive hyphens"))).toBe(true);
+    expect(errors.some((e) => e.code === "name-consecutive-hyphens")).toBe(
+      true,
+    );
   });
 
   it("name invalid characters", async () => {
@@ -140,7 +144,7 @@ Body
 `,
     );
     const errors = await validate(skillDir);
-    expect(errors.some((e) => e.includes("invalid characters"))).toBe(true);
+    expect(errors.some((e) => e.code === "name-invalid-characters")).toBe(true);
   });
 
   it("name directory mismatch", async () => {
@@ -154,7 +158,7 @@ Body
 `,
     );
     const errors = await validate(skillDir);
-    expect(errors.some((e) => e.includes("must match skill name"))).toBe(true);
+    expect(errors.some((e) => e.code === "name-directory-mismatch")).toBe(true);
   });
 
   it("unexpected fields", async () => {
@@ -169,7 +173,7 @@ Body
 `,
     );
     const errors = await validate(skillDir);
-    expect(errors.some((e) => e.includes("Unexpected fields"))).toBe(true);
+    expect(errors.some((e) => e.code === "unexpected-fields")).toBe(true);
   });
 
   it("valid with all fields", async () => {
@@ -189,6 +193,25 @@ Body
     expect(errors).toEqual([]);
   });
 
+  it("nested metadata is reported", async () => {
+    const skillDir = await createTempSkill(
+      "my-skill",
+      `---
+name: my-skill
+description: A test skill
+metadata:
+  client:
+    theme: dark
+---
+Body
+`,
+    );
+    const errors = await validate(skillDir);
+    expect(errors.map((e) => e.code)).toEqual(["metadata-value-nested"]);
+    expect(errors[0]!.message).toContain("'client'");
+    expect(errors[0]!.range?.start.line).toBe(4);
+  });
+
   it("allowed tools accepted", async () => {
     const skillDir = await createTempSkill(
       "my-skill",
@@ -204,6 +227,25 @@ Body
     expect(errors).toEqual([]);
   });
 
+  it("malformed allowed tools", async () => {
+    const skillDir = await createTempSkill(
+      "my-skill",
+      `---
+name: my-skill
+description: A test skill
+allowed-tools: Bash(git:* Read
+---
+Body
+`,
+    );
+    const errors = await validate(skillDir);
+    expect(errors.map((e) => e.code)).toEqual([
+      "allowed-tools-unbalanced-parens",
+    ]);
+    expect(errors[0]!.field).toBe("allowed-tools");
+    expect(errors[0]!.range?.start.line).toBe(4);
+  });
+
   it("i18n chinese name", async () => {
     const skillDir = await createTempSkill(
       "技能",
@@ -257,7 +299,7 @@ Body
 `,
     );
     const errors = await validate(skillDir);
-    expect(errors.some((e) => e.includes("lowercase"))).toBe(true);
+    expect(errors.some((e) => e.code === "name-uppercase")).toBe(true);
   });
 
   it("description too long", async () => {
@@ -271,9 +313,7 @@ Body
 `,
     );
     const errors = await validate(skillDir);
-    expect(
-      errors.some((e) => e.includes("exceeds") && e.includes("1024")),
-    ).toBe(true);
+    expect(errors.some((e) => e.code === "description-too-long")).toBe(true);
   });
 
   it("valid compatibility", async () => {
@@ -303,9 +343,72 @@ Body
 `,
     );
     const errors = await validate(skillDir);
-    expect(errors.some((e) => e.includes("exceeds") && e.includes("500"))).toBe(
-      true,
+    expect(errors.some((e) => e.code === "compatibility-too-long")).toBe(true);
+  });
+
+  it("diagnostics carry file and range", async () => {
+    const skillDir = await createTempSkill(
+      "Located",
+      `---
+description: A test skill
+name: Located
+---
+Body
+`,
     );
+    const errors = await validate(skillDir);
+    const uppercase = errors.find((e) => e.code === "name-uppercase");
+    expect(uppercase?.file).toBe(path.join(skillDir, "SKILL.md"));
+    expect(uppercase?.range?.start).toEqual({ line: 3, column: 1 });
+  });
+
+  it("parse errors carry a range", async () => {
+    const skillDir = await createTempSkill(
+      "my-skill-bad-yaml",
+      `---
+name: my-skill
+description: [broken
+---
+Body
+`,
+    );
+    const errors = await validate(skillDir);
+    expect(errors[0]!.code).toBe("parse-error");
+    expect(errors[0]!.range?.start.line).toBe(4);
+  });
+
+  it("parse errors carry the problem's code", async () => {
+    const skillDir = await createTempSkill(
+      "my-skill-duplicate",
+      `---
+name: my-skill-duplicate
+description: A test skill
+description: Another description
+---
+Body
+`,
+    );
+    const errors = await validate(skillDir);
+    expect(errors[0]!.code).toBe("frontmatter-duplicate-key");
+    expect(errors[0]!.range?.start.line).toBe(4);
+  });
+
+  it("body lint is opt-in", async () => {
+    const skillDir = await createTempSkill(
+      "my-skill-body",
+      `---
+name: my-skill-body
+description: A test skill
+---
+No heading here
+`,
+    );
+    expect(await validate(skillDir)).toEqual([]);
+
+    const diagnostics = await validate(skillDir, { lintBody: true });
+    expect(diagnostics.map((d) => d.code)).toEqual(["body-missing-heading"]);
+    expect(diagnostics[0]!.file).toBe(path.join(skillDir, "SKILL.md"));
+    expect(diagnostics[0]!.range?.start.line).toBe(5);
   });
 
   it("nfkc normalization", async () => {
@@ -333,3 +436,117 @@ Body
     expect(errors).toEqual([]);
   });
 });
+
+describe("validateMetadata", () => {
+  it("reports field and severity", () => {
+    const errors = validateMetadata({ name: "My-Skill", description: "" });
+    const uppercase = errors.find((e) => e.code === "name-uppercase");
+    expect(uppercase).toEqual({
+      code: "name-uppercase",
+      severity: "error",
+      field: "name",
+      message: "Skill name 'My-Skill' must be lowercase",
+    });
+    expect(errors.some((e) => e.code === "description-empty")).toBe(true);
+  });
+
+  it("missing required fields", () => {
+    const errors = validateMetadata({});
+    expect(errors.map((e) => e.code)).toEqual([
+      "name-missing",
+      "description-missing",
+    ]);
+  });
+
+  it("reports non-string metadata values by key", () => {
+    const errors = validateMetadata({
+      name: "my-skill",
+      description: "A test skill",
+      metadata: { author: "someone", version: 1.1, tags: ["pdf"] },
+    });
+    expect(errors).toEqual([
+      {
+        code: "metadata-value-type",
+        severity: "warning",
+        field: "metadata",
+        message:
+          "Metadata value for 'version' should be a string, got number; quote it to keep it as written",
+      },
+      {
+        code: "metadata-value-nested",
+        severity: "error",
+        field: "metadata",
+        message: "Metadata value for 'tags' must be a string, got list",
+      },
+    ]);
+    expect(
+      validateMetadata({
+        name: "my-skill",
+        description: "A",
+        metadata: "x",
+      }).map((e) => e.code),
+    ).toEqual(["metadata-type"]);
+  });
+
+  it("converts to plain messages", () => {
+    const errors = validateMetadata({ name: "my-skill" });
+    expect(toMessages(errors)).toEqual([
+      "Missing required field in frontmatter: description",
+    ]);
+  });
+});
+
+describe("validateSkills", () => {
+  beforeAll(async () => {
+    await createTempDir();
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  it("returns results in input order", async () => {
+    const dirs: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      dirs.push(
+        await createTempSkill(
+          `batch-${i}`,
+          `---
+name: batch-${i}
+description: Batch skill ${i}
+---
+Body
+`,
+        ),
+      );
+    }
+    dirs.splice(2, 0, path.join(TEMP_DIR, "nonexistent-batch"));
+
+    const results = await validateSkills(dirs, { concurrency: 2 });
+    expect(results.map((r) => r.skillDir)).toEqual(dirs);
+    expect(results.map((r) => r.valid)).toEqual([
+      true,
+      true,
+      false,
+      true,
+      true,
+      true,
+    ]);
+    expect(results[2]!.diagnostics[0]!.code).toBe("path-not-found");
+  });
+
+  it("handles an empty list", async () => {
+    expect(await validateSkills([])).toEqual([]);
+  });
+
+  it("validates every skill when concurrency is not a positive integer", async () => {
+    const dirs = [
+      path.join(TEMP_DIR, "batch-0"),
+      path.join(TEMP_DIR, "batch-1"),
+    ];
+    for (const concurrency of [NaN, 0, 1.5]) {
+      const results = await validateSkills(dirs, { concurrency });
+      expect(results.map((r) => r.valid)).toEqual([true, true]);
+    }
+  });
+});
@@ -0,0 +1,131 @@
+/** Tests for watch module. */
+
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+
+import {
+  type SkillChangeEvent,
+  type SkillChangeType,
+  type SkillWatcher,
+  watchSkills,
+} from "../src/watch.js";
+
+const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-watch");
+
+async function writeSkill(
+  relDir: string,
+  name: string,
+  description = `The ${name} skill`,
+): Promise<string> {
+  const skillDir = path.join(TEMP_DIR, relDir);
+  await fs.mkdir(skillDir, { recursive: true });
+  await fs.writeFile(
+    path.join(skillDir, "SKILL.md"),
+    `---
+name: ${name}
+description: ${description}
+---
+Body
+`,
+  );
+  return skillDir;
+}
+
+function nextEvent(
+  watcher: SkillWatcher,
+  type: SkillChangeType,
+  timeoutMs = 5000,
+): Promise<SkillChangeEvent> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Timed out waiting for '${type}'`)),
+      timeoutMs,
+    );
+    watcher.once(type, (event) => {
+      clearTimeout(timer);
+      resolve(event);
+    });
+  });
+}
+
+describe("watchSkills", () => {
+  let watcher: SkillWatcher;
+
+  beforeEach(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+    await writeSkill("git", "git");
+    watcher = watchSkills([TEMP_DIR], { debounceMs: 20 });
+    await watcher.ready;
+  });
+
+  afterEach(async () => {
+    watcher.close();
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  it("loads existing skills before becoming ready", () => {
+    expect(watcher.skills.map((s) => s.properties?.name)).toEqual(["git"]);
+  });
+
+  it("reports new skills", async () => {
+    const added = nextEvent(watcher, "add");
+    const skillDir = await writeSkill("pdf", "pdf");
+    const event = await added;
+    expect(event.type).toBe("add");
+    expect(event.skill.path).toBe(skillDir);
+    expect(event.skill.properties?.name).toBe("pdf");
+    expect(watcher.skills).toHaveLength(2);
+  });
+
+  it("reports edited skills", async () => {
+    const changed = nextEvent(watcher, "change");
+    await writeSkill("git", "git", "Updated description");
+    const event = await changed;
+    expect(event.skill.properties?.description).toBe("Updated description");
+  });
+
+  it("reports skills with broken frontmatter as changed", async () => {
+    const changed = nextEvent(watcher, "change");
+    await fs.writeFile(path.join(TEMP_DIR, "git", "SKILL.md"), "oops");
+    const event = await changed;
+    expect(event.skill.properties).toBeUndefined();
+    expect(event.skill.error).toBeDefined();
+  });
+
+  it("reports removed skills", async () => {
+    const removed = nextEvent(watcher, "remove");
+    await fs.rm(path.join(TEMP_DIR, "git"), { recursive: true });
+    const event = await removed;
+    expect(event.skill.path).toBe(path.join(TEMP_DIR, "git"));
+    expect(watcher.skills).toEqual([]);
+  });
+
+  it("ignores changes in ignored directories", async () => {
+    const events: SkillChangeEvent[] = [];
+    watcher.on("add", (event) => events.push(event));
+    await writeSkill("node_modules/dep", "dep");
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(events).toEqual([]);
+  });
+
+  it("keeps watching after a listener throws", async () => {
+    watcher.once("add", () => {
+      throw new Error("listener failed");
+    });
+    await writeSkill("pdf", "pdf");
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const changed = nextEvent(watcher, "change");
+    await writeSkill("git", "git", "Updated description");
+    const event = await changed;
+    expect(event.skill.properties?.description).toBe("Updated description");
+  });
+
+  it("rejects ready for a missing root without an error listener", async () => {
+    const missing = watchSkills([path.join(TEMP_DIR, "missing")]);
+    await expect(missing.ready).rejects.toThrow("does not exist");
+    missing.close();
+  });
+});
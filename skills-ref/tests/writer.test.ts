@@ -0,0 +1,235 @@
+/** Tests for writer module. */
+
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { tmpdir } from "node:os";
+
+import { ParseError } from "../src/errors.js";
+import { SkillProperties } from "../src/models.js";
+import { readProperties } from "../src/parser.js";
+import {
+  patchFrontmatter,
+  serializeFrontmatter,
+  updateFrontmatter,
+  writeProperties,
+} from "../src/writer.js";
+
+const TEMP_DIR = path.join(tmpdir(), "skills-ref-tests-writer");
+
+const SKILL_MD = `---
+# Maintained by the docs team
+name: my-skill
+description: 'Summarize documents'  # keep short
+license: MIT
+metadata:
+  # release info
+  author: someone
+  version: "1.0"
+---
+# My Skill
+
+Body text.
+`;
+
+describe("serializeFrontmatter", () => {
+  it("writes spec field names in spec order", () => {
+    const props = new SkillProperties(
+      "my-skill",
+      "A test skill",
+      "MIT",
+      "Needs git",
+      "Bash(git:*) Read",
+      { author: "someone" },
+    );
+    expect(serializeFrontmatter(props)).toBe(
+      "name: my-skill\n" +
+        "description: A test skill\n" +
+        "license: MIT\n" +
+        "compatibility: Needs git\n" +
+        "allowed-tools: Bash(git:*) Read\n" +
+        "metadata:\n" +
+        "  author: someone\n",
+    );
+  });
+
+  it("accepts toDict() output and keeps extra keys last", () => {
+    expect(
+      serializeFrontmatter({
+        extra: "x",
+        description: "A test skill",
+        name: "my-skill",
+      }),
+    ).toBe("name: my-skill\ndescription: A test skill\nextra: x\n");
+  });
+});
+
+describe("patchFrontmatter", () => {
+  it("returns the content unchanged for an empty or no-op patch", () => {
+    expect(patchFrontmatter(SKILL_MD, {})).toBe(SKILL_MD);
+    expect(
+      patchFrontmatter(SKILL_MD, {
+        name: "my-skill",
+        metadata: { author: "someone", version: "1.0" },
+      }),
+    ).toBe(SKILL_MD);
+  });
+
+  it("keeps quote style and comments when replacing a value", () => {
+    expect(
+      patchFrontmatter(SKILL_MD, { description: "Summarize long documents" }),
+    ).toBe(
+      SKILL_MD.replace(
+        "'Summarize documents'  # keep short",
+        "'Summarize long documents'  # keep short",
+      ),
+    );
+  });
+
+  it("patches block mappings key by key", () => {
+    expect(
+      patchFrontmatter(SKILL_MD, {
+        metadata: { version: "1.1", team: "docs" },
+      }),
+    ).toBe(`---
+# Maintained by the docs team
+name: my-skill
+description: 'Summarize documents'  # keep short
+license: MIT
+metadata:
+  # release info
+  version: "1.1"
+  team: docs
+---
+# My Skill
+
+Body text.
+`);
+  });
+
+  it("removes fields set to undefined", () => {
+    expect(patchFrontmatter(SKILL_MD, { license: undefined })).toBe(
+      SKILL_MD.replace("license: MIT\n", ""),
+    );
+  });
+
+  it("inserts new spec fields in spec order and other keys at the end", () => {
+    const content = "---\nname: my-skill\ndescription: A test skill\n---\n";
+    expect(
+      patchFrontmatter(content, {
+        extra: "x",
+        metadata: { author: "someone" },
+        "allowed-tools": "Read",
+        license: "MIT",
+      }),
+    ).toBe(
+      "---\nname: my-skill\ndescription: A test skill\n" +
+        "license: MIT\nallowed-tools: Read\n" +
+        "metadata:\n  author: someone\nextra: x\n---\n",
+    );
+  });
+
+  it("puts a new name first", () => {
+    expect(
+      patchFrontmatter("---\ndescription: A test skill\n---\nBody\n", {
+        name: "my-skill",
+      }),
+    ).toBe("---\nname: my-skill\ndescription: A test skill\n---\nBody\n");
+    expect(
+      patchFrontmatter("\n---\ndescription: A test skill\n---\n", {
+        name: "my-skill",
+      }),
+    ).toBe("\n---\nname: my-skill\ndescription: A test skill\n---\n");
+  });
+
+  it("rewrites multi-line and flow-style values whole", () => {
+    const content =
+      "---\nname: my-skill\ndescription: >\n  Folded\n  text\nmetadata: {a: b}\n---\n";
+    expect(
+      patchFrontmatter(content, {
+        description: "Plain",
+        metadata: { a: "c" },
+      }),
+    ).toBe("---\nname: my-skill\ndescription: Plain\nmetadata:\n  a: c\n---\n");
+  });
+
+  it("quotes values that need it", () => {
+    expect(
+      patchFrontmatter(SKILL_MD, { description: "Use when: always" }),
+    ).toContain("description: 'Use when: always'  # keep short\n");
+    expect(patchFrontmatter(SKILL_MD, { license: "1.0" })).toContain(
+      "license: '1.0'\n",
+    );
+  });
+
+  it("keeps CRLF line endings", () => {
+    expect(
+      patchFrontmatter(
+        "---\r\nname: my-skill\r\ndescription: A\r\n---\r\nBody\r\n",
+        { description: "B", license: "MIT" },
+      ),
+    ).toBe(
+      "---\r\nname: my-skill\r\ndescription: B\r\nlicense: MIT\r\n---\r\nBody\r\n",
+    );
+  });
+});
+
+describe("updateFrontmatter and writeProperties", () => {
+  beforeEach(async () => {
+    await fs.mkdir(path.join(TEMP_DIR, "my-skill"), { recursive: true });
+    await fs.writeFile(path.join(TEMP_DIR, "my-skill", "SKILL.md"), SKILL_MD);
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEMP_DIR, { recursive: true, force: true });
+  });
+
+  it("updates SKILL.md in place", async () => {
+    const skillDir = path.join(TEMP_DIR, "my-skill");
+    await updateFrontmatter(skillDir, { compatibility: "Needs network" });
+    const props = await readProperties(skillDir);
+    expect(props.compatibility).toBe("Needs network");
+    const content = await fs.readFile(path.join(skillDir, "SKILL.md"), "utf-8");
+    expect(content).toContain("# Maintained by the docs team\n");
+    expect(content.endsWith("# My Skill\n\nBody text.\n")).toBe(true);
+  });
+
+  it("throws ParseError without SKILL.md", async () => {
+    await expect(
+      updateFrontmatter(path.join(TEMP_DIR, "missing"), { license: "MIT" }),
+    ).rejects.toBeInstanceOf(ParseError);
+  });
+
+  it("round-trips properties read from disk", async () => {
+    const skillDir = path.join(TEMP_DIR, "my-skill");
+    await writeProperties(skillDir, await readProperties(skillDir));
+    expect(await fs.readFile(path.join(skillDir, "SKILL.md"), "utf-8")).toBe(
+      SKILL_MD,
+    );
+  });
+
+  it("removes optional fields the properties leave unset", async () => {
+    const skillDir = path.join(TEMP_DIR, "my-skill");
+    await writeProperties(
+      skillDir,
+      new SkillProperties("my-skill", "Summarize documents"),
+    );
+    expect(await fs.readFile(path.join(skillDir, "SKILL.md"), "utf-8"))
+      .toBe(`---
+# Maintained by the docs team
+name: my-skill
+description: 'Summarize documents'  # keep short
+---
+# My Skill
+
+Body text.
+`);
+  });
+
+  it("creates SKILL.md for a new skill", async () => {
+    const skillDir = path.join(TEMP_DIR, "new-skill");
+    const props = new SkillProperties("new-skill", "A new skill", "MIT");
+    await writeProperties(skillDir, props);
+    expect(await readProperties(skillDir)).toEqual(props);
+  });
+});